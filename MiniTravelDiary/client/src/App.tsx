@@ -10,6 +10,12 @@ import Landing from '@/pages/landing';
 import Dashboard from '@/pages/dashboard';
 import Upload from '@/pages/upload';
 import ViewEntry from '@/pages/view-entry';
+import SharedEntry from '@/pages/shared-entry';
+import Trash from '@/pages/trash';
+import Settings from '@/pages/settings';
+import Trips from '@/pages/trips';
+import Trip from '@/pages/trip';
+import MapPage from '@/pages/map';
 
 function Router() {
   useEffect(() => {
@@ -22,6 +28,12 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/upload" component={Upload} />
       <Route path="/entry/:id" component={ViewEntry} />
+      <Route path="/shared/:shareId" component={SharedEntry} />
+      <Route path="/trips" component={Trips} />
+      <Route path="/trips/:id" component={Trip} />
+      <Route path="/map" component={MapPage} />
+      <Route path="/trash" component={Trash} />
+      <Route path="/settings" component={Settings} />
       <Route component={NotFound} />
     </Switch>
   );
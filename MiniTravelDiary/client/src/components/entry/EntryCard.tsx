@@ -0,0 +1,56 @@
+import { Link } from 'wouter';
+import { MapPin, Monitor } from 'lucide-react';
+import { format } from 'date-fns';
+import { EntryImage } from '@/components/entry/EntryImage';
+import { getEntryTakenAt } from '@/lib/media';
+import { formatPlace } from '@/lib/places';
+import { DiaryEntry } from '@shared/schema';
+
+interface EntryCardProps {
+  entry: DiaryEntry;
+}
+
+export function EntryCard({ entry }: EntryCardProps) {
+  return (
+    <Link href={`/entry/${entry.id}`}>
+      <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300 block cursor-pointer">
+        <div className="aspect-w-16 aspect-h-9 relative">
+          <div className="w-full h-48">
+            <EntryImage
+              entry={entry}
+              sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+              alt={entry.caption}
+              className="w-full h-full object-cover"
+            />
+            <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent"></div>
+            <div className="absolute bottom-0 left-0 p-4">
+              <p className="text-white font-medium text-lg">{entry.caption}</p>
+              <p className="text-white/80 text-sm">
+                {format(getEntryTakenAt(entry), 'MMMM d, yyyy')}
+              </p>
+            </div>
+          </div>
+        </div>
+        <div className="p-4">
+          {entry.location && (
+            <div className="flex items-center text-sm text-gray-500">
+              <MapPin className="h-4 w-4 mr-1" />
+              <span>
+                {entry.place
+                  ? formatPlace(entry.place)
+                  : `${entry.location.lat.toFixed(4)}, ${entry.location.lng.toFixed(4)}`}
+              </span>
+            </div>
+          )}
+          <div className="flex items-center text-sm text-gray-500 mt-1">
+            <Monitor className="h-4 w-4 mr-1" />
+            <span>
+              {entry.screenInfo.width}×{entry.screenInfo.height}, 
+              {entry.screenInfo.orientation}
+            </span>
+          </div>
+        </div>
+      </div>
+    </Link>
+  );
+}
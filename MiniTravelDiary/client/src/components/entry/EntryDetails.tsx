@@ -0,0 +1,111 @@
+import { MapPin, Calendar, Clock } from 'lucide-react';
+import { format } from 'date-fns';
+import { EntryGallery } from '@/components/entry/EntryGallery';
+import { getEntryTakenAt } from '@/lib/media';
+import { formatPlaceInFull } from '@/lib/places';
+import { DiaryEntry, LocationPrecision, SharedEntry } from '@shared/schema';
+
+interface EntryDetailsProps {
+  entry: DiaryEntry | SharedEntry;
+}
+
+// How shared locations coarsened by the link's privacy settings are described
+const APPROXIMATE_LOCATIONS: Partial<Record<LocationPrecision, { label: string; digits: number }>> = {
+  neighborhood: { label: 'Approximate Location (within about 1 km)', digits: 2 },
+  city: { label: 'Approximate Location (within about 10 km)', digits: 1 },
+};
+
+export function EntryDetails({ entry }: EntryDetailsProps) {
+  const takenAt = getEntryTakenAt(entry);
+  const approximate = 'locationPrecision' in entry ? APPROXIMATE_LOCATIONS[entry.locationPrecision] : undefined;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="relative">
+        <EntryGallery entry={entry} sizes="(min-width: 768px) 768px, 100vw" />
+        <div className="absolute top-4 right-4 bg-black bg-opacity-50 text-white text-sm px-2 py-1 rounded">
+          {format(takenAt, 'MMMM d, yyyy')}
+        </div>
+      </div>
+      
+      <div className="p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-4">{entry.caption}</h2>
+        {entry.updatedAt && (
+          <p className="text-xs text-gray-500 -mt-3 mb-4">
+            Edited {format(new Date(entry.updatedAt), 'MMMM d, yyyy HH:mm')}
+          </p>
+        )}
+        
+        <div className="border-t border-gray-200 pt-6 space-y-4">
+          {entry.location && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-500 mb-1">Location</h3>
+              <div className="flex items-start">
+                <MapPin className="h-5 w-5 text-gray-400 mr-2" />
+                <div>
+                  <p className="text-gray-900 font-medium">
+                    {entry.place ? formatPlaceInFull(entry.place) : approximate?.label ?? 'Pinned Location'}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Lat: {entry.location.lat.toFixed(approximate?.digits ?? 6)}, Long: {entry.location.lng.toFixed(approximate?.digits ?? 6)}
+                  </p>
+                  {entry.place && approximate && (
+                    <p className="text-xs text-gray-500">{approximate.label}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+          
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 mb-1">Device Information</h3>
+            <div className="bg-gray-50 rounded-md p-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs text-gray-500">Screen Width</p>
+                  <p className="text-gray-900 font-medium">{entry.screenInfo.width}px</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Screen Height</p>
+                  <p className="text-gray-900 font-medium">{entry.screenInfo.height}px</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Orientation</p>
+                  <p className="text-gray-900 font-medium">{entry.screenInfo.orientation}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Created At</p>
+                  <p className="text-gray-900 font-medium">
+                    {format(new Date(entry.createdAt), 'HH:mm:ss')}
+                  </p>
+                </div>
+                {entry.capturedAt && (
+                  <div>
+                    <p className="text-xs text-gray-500">Photo Taken</p>
+                    <p className="text-gray-900 font-medium">
+                      {format(takenAt, 'MMM d, yyyy HH:mm')}
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+          
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 mb-1">Metadata</h3>
+            <div className="flex flex-wrap gap-2">
+              <div className="bg-blue-50 text-blue-700 px-2 py-1 rounded text-xs flex items-center">
+                <Calendar className="h-3 w-3 mr-1" />
+                <span>{format(takenAt, 'MMMM d, yyyy')}</span>
+              </div>
+              <div className="bg-amber-50 text-amber-700 px-2 py-1 rounded text-xs flex items-center">
+                <Clock className="h-3 w-3 mr-1" />
+                <span>{format(takenAt, 'HH:mm')}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
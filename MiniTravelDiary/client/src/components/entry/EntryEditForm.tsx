@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from '@/components/ui/form';
+import { PhotoPicker } from '@/components/entry/PhotoPicker';
+import { LocationField, type Coordinates } from '@/components/entry/LocationField';
+import { TripSelect } from '@/components/entry/TripSelect';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getEntryImageUrl, UploadRejectedError, uploadMedia } from '@/lib/media';
+import { DiaryEntry, EntryPlace, UpdateDiaryEntry } from '@shared/schema';
+
+const editFormSchema = z.object({
+  caption: z.string().min(3, { message: 'Caption must be at least 3 characters long' }),
+});
+
+type EditFormValues = z.infer<typeof editFormSchema>;
+
+interface EntryEditFormProps {
+  entry: DiaryEntry;
+  onDone: () => void;
+}
+
+export function EntryEditForm({ entry, onDone }: EntryEditFormProps) {
+  const { toast } = useToast();
+  const [previewUrl, setPreviewUrl] = useState<string | null>(getEntryImageUrl(entry) ?? null);
+  const [file, setFile] = useState<File | null>(null);
+  const [location, setLocation] = useState<Coordinates | null>(entry.location);
+  const [place, setPlace] = useState<EntryPlace | null>(entry.place);
+  const [tripId, setTripId] = useState<number | null>(entry.tripId);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const form = useForm<EditFormValues>({
+    resolver: zodResolver(editFormSchema),
+    defaultValues: {
+      caption: entry.caption,
+    },
+  });
+
+  const updateEntryMutation = useMutation({
+    mutationFn: async (updates: UpdateDiaryEntry) => {
+      return await apiRequest('PATCH', `/api/entries/${entry.id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/entries/${entry.id}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      toast({
+        title: 'Entry Updated',
+        description: 'Your changes have been saved.',
+      });
+      onDone();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update entry: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const handleFileSelected = (selectedFile: File) => {
+    setFile(selectedFile);
+    setPreviewUrl(URL.createObjectURL(selectedFile));
+  };
+
+  const handleLocationChange = (newLocation: Coordinates | null, newPlace: EntryPlace | null) => {
+    setLocation(newLocation);
+    setPlace(newPlace);
+  };
+
+  const removeImage = () => {
+    setFile(null);
+    setPreviewUrl(null);
+  };
+
+  const onSubmit = async (data: EditFormValues) => {
+    if (!previewUrl) {
+      toast({
+        title: 'Missing Image',
+        description: 'Please upload an image or take a photo.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Only send the fields that actually changed
+    const updates: UpdateDiaryEntry = {};
+
+    if (data.caption !== entry.caption) {
+      updates.caption = data.caption;
+    }
+
+    // A place picked by name goes with its coordinates; otherwise the server
+    // names the new location itself
+    const isPickedPlace = !!place && place !== entry.place;
+    if (isPickedPlace || location?.lat !== entry.location?.lat || location?.lng !== entry.location?.lng) {
+      updates.location = location;
+      if (isPickedPlace) {
+        updates.place = place;
+      }
+    }
+
+    if (tripId !== entry.tripId) {
+      updates.tripId = tripId;
+    }
+
+    if (file) {
+      setIsUploading(true);
+      try {
+        const media = await uploadMedia(file);
+        updates.mediaId = media.id;
+
+        // The old capture time belongs to the photo being replaced
+        const capturedAt = media.exif?.capturedAt ?? null;
+        if (capturedAt !== entry.capturedAt) {
+          updates.capturedAt = capturedAt;
+        }
+      } catch (error) {
+        console.error('Error uploading image:', error);
+        toast({
+          title: 'Upload Error',
+          description: error instanceof UploadRejectedError
+            ? error.message
+            : 'Failed to upload image. Please try again.',
+          variant: 'destructive',
+        });
+        return;
+      } finally {
+        setIsUploading(false);
+      }
+    }
+
+    if (Object.keys(updates).length === 0) {
+      onDone();
+      return;
+    }
+
+    updateEntryMutation.mutate(updates);
+  };
+
+  const isSaving = isUploading || updateEntryMutation.isPending;
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="bg-white rounded-lg shadow-md p-6">
+        {/* Photo */}
+        <div className="mb-6">
+          <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Photo</FormLabel>
+          <PhotoPicker
+            previewUrl={previewUrl}
+            onFileSelected={handleFileSelected}
+            onRemove={removeImage}
+          />
+        </div>
+
+        {/* Caption */}
+        <FormField
+          control={form.control}
+          name="caption"
+          render={({ field }) => (
+            <FormItem className="mb-6">
+              <FormLabel>Caption</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Describe this moment..."
+                  className="resize-none"
+                  rows={3}
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {/* Location */}
+        <div className="mb-6">
+          <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Location</FormLabel>
+          <LocationField location={location} place={place} onChange={handleLocationChange} label="Location" />
+        </div>
+
+        {/* Trip */}
+        <div className="mb-6">
+          <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Trip</FormLabel>
+          <TripSelect tripId={tripId} onChange={setTripId} />
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            variant="outline"
+            className="mr-3"
+            onClick={onDone}
+            disabled={isSaving}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            className="bg-primary hover:bg-primary/90"
+            disabled={isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from '@/components/ui/carousel';
+import { EntryImage } from '@/components/entry/EntryImage';
+import { DiaryEntry } from '@shared/schema';
+
+interface EntryGalleryProps {
+  entry: Pick<DiaryEntry, 'caption' | 'mediaId' | 'imageUrl' | 'variants' | 'photos' | 'photoVariants'>;
+  sizes: string;
+}
+
+/**
+ * An entry's photos as a swipeable gallery that opens on the cover. Entries
+ * with a single photo just show it.
+ */
+export function EntryGallery({ entry, sizes }: EntryGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const { photos } = entry;
+
+  useEffect(() => {
+    if (!api) {
+      return;
+    }
+
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on('select', onSelect);
+    return () => {
+      api.off('select', onSelect);
+    };
+  }, [api]);
+
+  if (photos.length < 2) {
+    return (
+      <EntryImage
+        entry={entry}
+        sizes={sizes}
+        alt={photos[0]?.caption || entry.caption}
+        className="w-full h-auto"
+      />
+    );
+  }
+
+  const coverIndex = Math.max(0, photos.findIndex((photo) => photo.mediaId === entry.mediaId));
+  const caption = photos[current]?.caption;
+
+  return (
+    <div className="bg-black">
+      <Carousel setApi={setApi} opts={{ startIndex: coverIndex }}>
+        <CarouselContent className="ml-0">
+          {photos.map((photo) => (
+            <CarouselItem key={photo.mediaId} className="pl-0 flex items-center justify-center">
+              <EntryImage
+                entry={{
+                  mediaId: photo.mediaId,
+                  imageUrl: null,
+                  variants: entry.photoVariants?.[photo.mediaId] ?? null,
+                }}
+                sizes={sizes}
+                alt={photo.caption || entry.caption}
+                className="w-full h-auto max-h-[70vh] object-contain"
+              />
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-3" />
+        <CarouselNext className="right-3" />
+      </Carousel>
+      <div className="flex items-center justify-between gap-4 px-4 py-2 text-sm text-white/90">
+        <p className="truncate">{caption}</p>
+        <p className="flex-shrink-0 text-white/70">{current + 1} / {photos.length}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { ImgHTMLAttributes } from 'react';
+import { getEntryImageUrl } from '@/lib/media';
+import { DiaryEntry, ImageVariant, imageVariantNames } from '@shared/schema';
+
+interface EntryImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>, 'src' | 'srcSet' | 'sizes'> {
+  entry: Pick<DiaryEntry, 'mediaId' | 'imageUrl' | 'variants'>;
+  // How wide the image is displayed, so the browser can pick a variant
+  sizes: string;
+}
+
+function toSrcSet(variants: ImageVariant[], url: (variant: ImageVariant) => string) {
+  return variants.map((variant) => `${url(variant)} ${variant.width}w`).join(', ');
+}
+
+/**
+ * An entry's photo, letting the browser choose the smallest variant (WebP
+ * where supported) that fills the space it is shown in.
+ */
+export function EntryImage({ entry, sizes, ...props }: EntryImageProps) {
+  const { variants } = entry;
+
+  if (!variants) {
+    return <img src={getEntryImageUrl(entry)} {...props} />;
+  }
+
+  // Small originals produce identically sized variants; list each size once
+  const candidates = imageVariantNames
+    .map((name) => variants[name])
+    .filter((variant, index, all) => all.findIndex((v) => v.width === variant.width) === index);
+
+  // display: contents keeps the <img> as the element that gets laid out
+  return (
+    <picture className="contents">
+      <source type="image/webp" srcSet={toSrcSet(candidates, (v) => v.webpUrl)} sizes={sizes} />
+      <img
+        src={variants.medium.url}
+        srcSet={toSrcSet(candidates, (v) => v.url)}
+        sizes={sizes}
+        width={variants.full.width}
+        height={variants.full.height}
+        {...props}
+      />
+    </picture>
+  );
+}
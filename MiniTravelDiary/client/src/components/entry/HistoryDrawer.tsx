@@ -0,0 +1,219 @@
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Drawer,
+  DrawerClose,
+  DrawerContent,
+  DrawerDescription,
+  DrawerFooter,
+  DrawerHeader,
+  DrawerTitle,
+} from '@/components/ui/drawer';
+import { useAuth } from '@/context/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getMediaUrl, parseCapturedAt } from '@/lib/media';
+import { formatPlace } from '@/lib/places';
+import { DiaryEntry, EntryRevision } from '@shared/schema';
+import { RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface HistoryDrawerProps {
+  entry: DiaryEntry;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function formatLocation(location: DiaryEntry['location'], place: DiaryEntry['place'] | undefined) {
+  if (!location) {
+    return 'No location';
+  }
+  return place ? formatPlace(place) : `${location.lat.toFixed(4)}, ${location.lng.toFixed(4)}`;
+}
+
+function formatCapturedAt(capturedAt: string | null | undefined) {
+  return capturedAt ? format(parseCapturedAt(capturedAt), 'MMM d, yyyy HH:mm') : 'Unknown';
+}
+
+function formatPhotoCount(photos: DiaryEntry['photos']) {
+  return photos.length === 1 ? '1 photo' : `${photos.length} photos`;
+}
+
+function formatPhotoUrl(mediaId: string | null | undefined, imageUrl: string | null | undefined) {
+  return mediaId ? getMediaUrl(mediaId) : imageUrl ?? undefined;
+}
+
+function RevisionChanges({ revision }: { revision: EntryRevision }) {
+  const { caption, location, place, imageUrl, mediaId, photos, capturedAt } = revision.changes;
+
+  return (
+    <div className="space-y-2 text-sm">
+      {caption && (
+        <div>
+          <p className="text-xs text-gray-500">Caption</p>
+          <p className="text-red-600 line-through">{caption.from}</p>
+          <p className="text-green-700">{caption.to}</p>
+        </div>
+      )}
+      {location && (
+        <div>
+          <p className="text-xs text-gray-500">Location</p>
+          <p>
+            <span className="text-red-600 line-through">{formatLocation(location.from, place?.from)}</span>
+            {' → '}
+            <span className="text-green-700">{formatLocation(location.to, place?.to)}</span>
+          </p>
+        </div>
+      )}
+      {place && !location && (
+        <div>
+          <p className="text-xs text-gray-500">Place</p>
+          <p>
+            <span className="text-red-600 line-through">{place.from ? formatPlace(place.from) : 'Unnamed'}</span>
+            {' → '}
+            <span className="text-green-700">{place.to ? formatPlace(place.to) : 'Unnamed'}</span>
+          </p>
+        </div>
+      )}
+      {(imageUrl || mediaId) && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">Photo</p>
+          <div className="flex items-center gap-2">
+            <img
+              src={formatPhotoUrl(mediaId?.from, imageUrl?.from)}
+              alt="Previous photo"
+              className="h-12 w-12 rounded object-cover opacity-60"
+            />
+            <span>→</span>
+            <img
+              src={formatPhotoUrl(mediaId?.to, imageUrl?.to)}
+              alt="New photo"
+              className="h-12 w-12 rounded object-cover"
+            />
+          </div>
+        </div>
+      )}
+      {photos && (
+        <div>
+          <p className="text-xs text-gray-500">Gallery</p>
+          {photos.from.length === photos.to.length ? (
+            <p>Photos changed</p>
+          ) : (
+            <p>
+              <span className="text-red-600 line-through">{formatPhotoCount(photos.from)}</span>
+              {' → '}
+              <span className="text-green-700">{formatPhotoCount(photos.to)}</span>
+            </p>
+          )}
+        </div>
+      )}
+      {capturedAt && (
+        <div>
+          <p className="text-xs text-gray-500">Taken</p>
+          <p>
+            <span className="text-red-600 line-through">{formatCapturedAt(capturedAt.from)}</span>
+            {' → '}
+            <span className="text-green-700">{formatCapturedAt(capturedAt.to)}</span>
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function HistoryDrawer({ entry, open, onOpenChange }: HistoryDrawerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const { data: revisions, isLoading } = useQuery<EntryRevision[]>({
+    queryKey: [`/api/entries/${entry.id}/revisions`],
+    enabled: open,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      return await apiRequest('POST', `/api/entries/${entry.id}/revisions/${revisionId}/restore`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/entries/${entry.id}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/entries/${entry.id}/revisions`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      toast({
+        title: 'Version Restored',
+        description: 'Your entry has been restored.',
+      });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to restore version: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  return (
+    <Drawer open={open} onOpenChange={onOpenChange}>
+      <DrawerContent>
+        <div className="mx-auto w-full max-w-2xl">
+          <DrawerHeader>
+            <DrawerTitle>Edit History</DrawerTitle>
+            <DrawerDescription>
+              Every change to this entry is kept. Restoring undoes an edit and everything after it.
+            </DrawerDescription>
+          </DrawerHeader>
+
+          <div className="px-4 max-h-[60vh] overflow-y-auto">
+            {isLoading && (
+              <div className="space-y-3">
+                <Skeleton className="h-16 w-full" />
+                <Skeleton className="h-16 w-full" />
+              </div>
+            )}
+
+            {!isLoading && revisions && revisions.length === 0 && (
+              <p className="text-sm text-gray-600 py-6 text-center">This entry hasn't been edited yet.</p>
+            )}
+
+            {!isLoading && revisions && revisions.length > 0 && (
+              <div className="divide-y divide-gray-200">
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="py-4">
+                    <div className="flex items-center justify-between mb-2">
+                      <p className="text-sm font-medium text-gray-900">
+                        {format(new Date(revision.createdAt), 'MMM d, yyyy HH:mm')}
+                        <span className="text-gray-500 font-normal">
+                          {' · '}{revision.editedBy === user?.id ? 'You' : revision.editedBy}
+                        </span>
+                      </p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => restoreMutation.mutate(revision.id)}
+                        disabled={restoreMutation.isPending}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Restore previous version
+                      </Button>
+                    </div>
+                    <RevisionChanges revision={revision} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <DrawerFooter>
+            <DrawerClose asChild>
+              <Button variant="outline">Close</Button>
+            </DrawerClose>
+          </DrawerFooter>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
@@ -0,0 +1,76 @@
+import { Button } from '@/components/ui/button';
+import { PlacePicker } from '@/components/entry/PlacePicker';
+import { useCurrentLocation } from '@/hooks/use-current-location';
+import { formatPlaceInFull } from '@/lib/places';
+import { EntryPlace } from '@shared/schema';
+import { MapPin, X } from 'lucide-react';
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+interface LocationFieldProps {
+  location: Coordinates | null;
+  // The place picked for `location`, if it was picked by name
+  place?: EntryPlace | null;
+  onChange: (location: Coordinates | null, place: EntryPlace | null) => void;
+  label?: string;
+}
+
+/**
+ * Shows the entry's coordinates, or fills them from the browser's
+ * geolocation or a place searched for by name.
+ */
+export function LocationField({ location, place = null, onChange, label = 'Current Location' }: LocationFieldProps) {
+  const { getLocation, isGettingLocation } = useCurrentLocation();
+
+  if (location) {
+    return (
+      <div className="bg-gray-50 p-3 rounded-md flex items-start">
+        <MapPin className="h-5 w-5 text-gray-500 mr-2 mt-0.5" />
+        <div className="flex-grow">
+          <p className="text-sm font-medium text-gray-700">{place ? formatPlaceInFull(place) : label}</p>
+          <p className="text-xs text-gray-500">Lat: {location.lat.toFixed(6)}, Long: {location.lng.toFixed(6)}</p>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onChange(null, null)}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="outline"
+        className="flex items-center justify-center w-full border-gray-300"
+        onClick={() => getLocation((current) => onChange(current, null))}
+        disabled={isGettingLocation}
+      >
+        {isGettingLocation ? (
+          <span className="flex items-center">
+            <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            Getting location...
+          </span>
+        ) : (
+          <>
+            <MapPin className="h-5 w-5 mr-1" />
+            Get Current Location
+          </>
+        )}
+      </Button>
+      <PlacePicker onPick={onChange} />
+    </div>
+  );
+}
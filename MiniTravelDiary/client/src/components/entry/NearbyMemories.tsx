@@ -0,0 +1,131 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EntryImage } from '@/components/entry/EntryImage';
+import type { Coordinates } from '@/components/entry/LocationField';
+import { useCurrentLocation } from '@/hooks/use-current-location';
+import { formatDistance } from '@/lib/geo';
+import { getEntryTakenAt } from '@/lib/media';
+import { distanceMeters } from '@shared/geo';
+import { DiaryEntry } from '@shared/schema';
+import { LocateFixed } from 'lucide-react';
+
+const RADIUS_OPTIONS_KM = [1, 5, 25, 100, 500];
+const DEFAULT_RADIUS_KM = 25;
+// Remembers the distance the user last picked
+const RADIUS_STORAGE_KEY = 'nearbyRadiusKm';
+
+function getSavedRadius() {
+  const saved = Number(localStorage.getItem(RADIUS_STORAGE_KEY));
+  return RADIUS_OPTIONS_KM.includes(saved) ? saved : DEFAULT_RADIUS_KM;
+}
+
+/**
+ * The user's past entries within a chosen distance of where they are now,
+ * closest first. Nothing is looked up until they ask, so the browser only
+ * prompts for their location then.
+ */
+export function NearbyMemories() {
+  const { getLocation, isGettingLocation } = useCurrentLocation();
+  const [here, setHere] = useState<Coordinates | null>(null);
+  const [radiusKm, setRadiusKm] = useState(getSavedRadius);
+
+  // Entries are edited and trashed from other pages, so always refetch
+  const { data: entries, isLoading, error } = useQuery<DiaryEntry[]>({
+    queryKey: [`/api/entries?near=${here?.lat},${here?.lng}&radiusKm=${radiusKm}`],
+    enabled: !!here,
+    refetchOnMount: 'always',
+  });
+
+  const nearby = here && entries
+    ? entries
+      .flatMap((entry) => (entry.location ? [{ entry, meters: distanceMeters(here, entry.location) }] : []))
+      .sort((a, b) => a.meters - b.meters)
+    : [];
+
+  const handleRadiusChange = (value: string) => {
+    setRadiusKm(Number(value));
+    localStorage.setItem(RADIUS_STORAGE_KEY, value);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-8">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <LocateFixed className="h-5 w-5 text-primary mr-2" />
+            Memories Near You
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">Entries from around where you are right now.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={String(radiusKm)} onValueChange={handleRadiusChange}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RADIUS_OPTIONS_KM.map((km) => (
+                <SelectItem key={km} value={String(km)}>Within {km} km</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => getLocation(setHere)}
+            disabled={isGettingLocation}
+          >
+            {isGettingLocation ? 'Locating...' : here ? 'Update location' : 'Find memories'}
+          </Button>
+        </div>
+      </div>
+
+      {here && isLoading && (
+        <div className="flex gap-3 mt-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="w-40 h-40 flex-shrink-0" />
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-500 mt-4">Error finding nearby entries. Please try again later.</p>
+      )}
+
+      {here && entries && nearby.length === 0 && (
+        <p className="text-sm text-gray-500 mt-4">No entries within {radiusKm} km of here yet.</p>
+      )}
+
+      {nearby.length > 0 && (
+        <div className="flex gap-3 overflow-x-auto pb-1 mt-4">
+          {nearby.map(({ entry, meters }) => (
+            <Link key={entry.id} href={`/entry/${entry.id}`}>
+              <div className="w-40 flex-shrink-0 cursor-pointer group">
+                <EntryImage
+                  entry={entry}
+                  sizes="160px"
+                  alt={entry.caption}
+                  className="w-40 h-28 rounded object-cover group-hover:opacity-90"
+                />
+                <p className="text-sm font-medium text-gray-900 truncate mt-1">{entry.caption}</p>
+                <p className="text-xs text-gray-500 truncate">
+                  {formatDistance(meters)} away, {formatDistanceToNowStrict(getEntryTakenAt(entry), { addSuffix: true })}
+                </p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { X, Camera } from 'lucide-react';
+import { allowedImageTypes } from '@shared/schema';
+
+interface PhotoPickerProps {
+  previewUrl: string | null;
+  onFileSelected: (file: File) => void;
+  onRemove: () => void;
+  // Allow picking several files at once; onFileSelected is called for each
+  multiple?: boolean;
+}
+
+/**
+ * Pick a photo from disk or the device camera, showing a preview once chosen.
+ */
+export function PhotoPicker({ previewUrl, onFileSelected, onRemove, multiple = false }: PhotoPickerProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  const [stream, setStream] = useState<MediaStream | null>(null);
+
+  // Attach the stream once the video element is rendered
+  useEffect(() => {
+    if (showCamera && videoRef.current && stream) {
+      videoRef.current.srcObject = stream;
+    }
+  }, [showCamera, stream]);
+
+  // Clean up camera stream on unmount
+  useEffect(() => {
+    return () => {
+      if (stream) {
+        stream.getTracks().forEach(track => track.stop());
+      }
+    };
+  }, [stream]);
+
+  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFiles = Array.from(e.target.files ?? []);
+    if (selectedFiles.length > 0) {
+      selectedFiles.forEach(onFileSelected);
+      setShowCamera(false);
+    }
+    // Let the same file be picked again after it was removed
+    e.target.value = '';
+  };
+
+  const removeImage = () => {
+    onRemove();
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  const openCamera = async () => {
+    try {
+      if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
+        const mediaStream = await navigator.mediaDevices.getUserMedia({ video: true });
+        setStream(mediaStream);
+        setShowCamera(true);
+      } else {
+        toast({
+          title: 'Camera Error',
+          description: 'Camera access is not supported by your browser.',
+          variant: 'destructive',
+        });
+      }
+    } catch (error) {
+      console.error('Error accessing camera:', error);
+      toast({
+        title: 'Camera Error',
+        description: 'Unable to access your camera.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const capturePhoto = () => {
+    if (videoRef.current && canvasRef.current) {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      const context = canvas.getContext('2d');
+
+      // Set canvas dimensions to match video
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+
+      // Draw video frame to canvas
+      context?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+      // Convert canvas to blob
+      canvas.toBlob((blob) => {
+        if (blob) {
+          onFileSelected(new File([blob], 'camera-capture.jpg', { type: 'image/jpeg' }));
+          setShowCamera(false);
+
+          // Stop the camera stream
+          if (stream) {
+            stream.getTracks().forEach(track => track.stop());
+            setStream(null);
+          }
+        }
+      }, 'image/jpeg', 0.8);
+    }
+  };
+
+  const closeCamera = () => {
+    if (stream) {
+      stream.getTracks().forEach(track => track.stop());
+      setStream(null);
+    }
+    setShowCamera(false);
+  };
+
+  return (
+    <>
+      {/* Camera Capture UI */}
+      {showCamera && (
+        <div className="relative mb-4 rounded-lg overflow-hidden">
+          <video
+            ref={videoRef}
+            autoPlay
+            playsInline
+            className="w-full h-64 object-cover rounded-lg"
+          />
+          <canvas ref={canvasRef} className="hidden" />
+          <div className="absolute bottom-4 inset-x-0 flex justify-center space-x-4">
+            <Button
+              type="button"
+              onClick={capturePhoto}
+              variant="secondary"
+              className="rounded-full w-12 h-12 flex items-center justify-center p-0 bg-white"
+            >
+              <Camera className="h-6 w-6" />
+            </Button>
+            <Button
+              type="button"
+              onClick={closeCamera}
+              variant="destructive"
+              className="rounded-full w-12 h-12 flex items-center justify-center p-0"
+            >
+              <X className="h-6 w-6" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!showCamera && !previewUrl && (
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
+          <input
+            type="file"
+            ref={fileInputRef}
+            id="photo-upload"
+            accept={allowedImageTypes.join(',')}
+            multiple={multiple}
+            className="hidden"
+            onChange={handleImageSelect}
+          />
+          <div className="space-y-2">
+            <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0l-4 4m4-4v12" />
+            </svg>
+            <div className="flex text-sm text-gray-600 justify-center">
+              <label htmlFor="photo-upload" className="relative cursor-pointer bg-white rounded-md font-medium text-primary hover:text-primary/90 focus-within:outline-none">
+                <span>{multiple ? 'Upload photos' : 'Upload a file'}</span>
+              </label>
+              <p className="pl-1">or drag and drop</p>
+            </div>
+            <p className="text-xs text-gray-500">JPG, PNG, WebP or GIF up to 20MB</p>
+          </div>
+          <Button
+            type="button"
+            variant="link"
+            onClick={openCamera}
+            className="mt-4 flex items-center justify-center text-sm font-medium text-primary hover:text-primary/90 mx-auto"
+          >
+            <Camera className="h-5 w-5 mr-1" />
+            Take a photo instead
+          </Button>
+        </div>
+      )}
+
+      {previewUrl && (
+        <div className="mt-2 relative">
+          <img
+            src={previewUrl}
+            alt="Preview"
+            className="w-full h-64 object-cover rounded-lg"
+          />
+          <Button
+            type="button"
+            variant="destructive"
+            size="icon"
+            onClick={removeImage}
+            className="absolute top-2 right-2 rounded-full w-8 h-8 p-1"
+          >
+            <X className="h-5 w-5" />
+          </Button>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { formatPlaceInFull } from '@/lib/places';
+import { EntryPlace, PlaceSearchResult } from '@shared/schema';
+import { MapPin, MapPinned, Search } from 'lucide-react';
+import type { Coordinates } from '@/components/entry/LocationField';
+
+// How long typing must pause before searching
+const SEARCH_DELAY_MS = 250;
+
+interface PlacePickerProps {
+  onPick: (location: Coordinates, place: EntryPlace | null) => void;
+}
+
+/**
+ * Reads "lat, lng" typed into the search, e.g. "35.22, 138.62", so a pin can
+ * be dropped anywhere the place index doesn't name.
+ */
+function parseCoordinates(query: string): Coordinates | null {
+  const match = query.trim().match(/^(-?\d+(?:\.\d+)?)\s*[,\s]\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) {
+    return null;
+  }
+  const lat = Number(match[1]);
+  const lng = Number(match[2]);
+  return Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? { lat, lng } : null;
+}
+
+/**
+ * Searches the bundled place index by name, or drops a pin at typed
+ * coordinates, for locations the browser can't provide.
+ */
+export function PlacePicker({ onPick }: PlacePickerProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(query.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const pin = parseCoordinates(query);
+
+  const { data: places, isFetching } = useQuery<PlaceSearchResult[]>({
+    queryKey: [`/api/places?q=${encodeURIComponent(searchQuery)}`],
+    enabled: searchQuery.length >= 2 && !pin,
+  });
+
+  const pick = (location: Coordinates, place: EntryPlace | null) => {
+    onPick(location, place);
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="flex items-center justify-center w-full border-gray-300"
+        >
+          <Search className="h-5 w-5 mr-1" />
+          Search for a Place
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="p-0 w-[var(--radix-popover-trigger-width)]" align="start">
+        {/* The server already ranks the results, so don't filter them again */}
+        <Command shouldFilter={false}>
+          <CommandInput
+            placeholder="City name, or lat, lng"
+            value={query}
+            onValueChange={setQuery}
+          />
+          <CommandList>
+            {pin ? (
+              <CommandGroup>
+                <CommandItem value="pin" onSelect={() => pick(pin, null)}>
+                  <MapPinned className="h-4 w-4 mr-2" />
+                  Drop a pin at {pin.lat}, {pin.lng}
+                </CommandItem>
+              </CommandGroup>
+            ) : (
+              <>
+                {searchQuery.length >= 2 && !isFetching && (
+                  <CommandEmpty>No places found.</CommandEmpty>
+                )}
+                {places && places.length > 0 && (
+                  <CommandGroup>
+                    {places.map(({ lat, lng, ...place }) => (
+                      <CommandItem
+                        key={`${place.city}-${place.region}-${place.countryCode}-${lat}-${lng}`}
+                        value={`${place.city}-${place.region}-${place.countryCode}-${lat}-${lng}`}
+                        onSelect={() => pick({ lat, lng }, place)}
+                      >
+                        <MapPin className="h-4 w-4 mr-2 flex-shrink-0" />
+                        <span className="truncate">{formatPlaceInFull(place)}</span>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                )}
+              </>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,283 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { DiaryEntry, InsertShareLink, LocationPrecision, ShareLinkSummary } from '@shared/schema';
+import { Copy, Eye, Link2, Link2Off, Lock, MapPin } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface SharePanelProps {
+  entry: DiaryEntry;
+}
+
+const EXPIRY_OPTIONS = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '1', label: '1 day', days: 1 },
+  { value: '7', label: '7 days', days: 7 },
+  { value: '30', label: '30 days', days: 30 },
+];
+
+const PRECISION_OPTIONS: { value: LocationPrecision; label: string }[] = [
+  { value: 'exact', label: 'Exact location' },
+  { value: 'neighborhood', label: 'Neighborhood (about 1 km)' },
+  { value: 'city', label: 'City (about 10 km)' },
+  { value: 'hidden', label: 'Hide location' },
+];
+
+export function getShareUrl(shareId: string) {
+  return `${window.location.origin}/shared/${shareId}`;
+}
+
+function linkStatus(link: ShareLinkSummary) {
+  if (link.revokedAt) return 'Revoked';
+  if (!link.isActive) return 'Expired';
+  return 'Active';
+}
+
+export function SharePanel({ entry }: SharePanelProps) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState('');
+  const [expiry, setExpiry] = useState('never');
+  const [passphrase, setPassphrase] = useState('');
+  const [locationPrecision, setLocationPrecision] = useState<LocationPrecision>('neighborhood');
+  const [stripExif, setStripExif] = useState(true);
+
+  const { data: links, isLoading } = useQuery<ShareLinkSummary[]>({
+    queryKey: [`/api/entries/${entry.id}/share-links`],
+  });
+
+  const activeLinks = links?.filter((link) => link.isActive) ?? [];
+
+  const refreshLinks = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/entries/${entry.id}/share-links`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/share-links'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertShareLink) => {
+      return await apiRequest('POST', `/api/entries/${entry.id}/share-links`, data);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Link Created',
+        description: 'Anyone with the link can now view this entry.',
+      });
+      setLabel('');
+      setExpiry('never');
+      setPassphrase('');
+      setLocationPrecision('neighborhood');
+      setStripExif(true);
+      refreshLinks();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to share entry: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      return await apiRequest('DELETE', `/api/entries/${entry.id}/share-links/${linkId}`, undefined);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Link Revoked',
+        description: 'That link no longer opens this entry.',
+      });
+      refreshLinks();
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to revoke link: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const handleCreate = () => {
+    const days = EXPIRY_OPTIONS.find((option) => option.value === expiry)?.days;
+
+    createMutation.mutate({
+      label: label.trim() || undefined,
+      expiresAt: days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null,
+      passphrase: passphrase || undefined,
+      locationPrecision,
+      stripExif,
+    });
+  };
+
+  const handleCopy = async (shareUrl: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      toast({
+        title: 'Copied',
+        description: 'Share link copied to your clipboard.',
+      });
+    } catch (error) {
+      console.error('Error copying share link:', error);
+      toast({
+        title: 'Copy Failed',
+        description: 'Select the link and copy it manually.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-medium text-gray-500">Sharing</h3>
+        {activeLinks.length > 0 ? (
+          <Badge className="bg-green-100 text-green-700 hover:bg-green-100">
+            {activeLinks.length} active {activeLinks.length === 1 ? 'link' : 'links'}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Private</Badge>
+        )}
+      </div>
+
+      {!isLoading && links && links.length > 0 && (
+        <div className="divide-y divide-gray-100 mb-6">
+          {links.map((link) => {
+            const shareUrl = getShareUrl(link.id);
+
+            return (
+              <div key={link.id} className={`py-3 space-y-2 ${link.isActive ? '' : 'opacity-60'}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{link.label || 'Untitled link'}</p>
+                    <Badge variant={link.isActive ? 'outline' : 'secondary'}>{linkStatus(link)}</Badge>
+                    {link.hasPassphrase && <Lock className="h-4 w-4 text-gray-400" />}
+                  </div>
+                  <div className="flex items-center text-xs text-gray-500 flex-shrink-0">
+                    <Eye className="h-3 w-3 mr-1" />
+                    {link.viewCount} {link.viewCount === 1 ? 'view' : 'views'}
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 flex items-center">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  {PRECISION_OPTIONS.find((option) => option.value === link.locationPrecision)?.label}
+                  {link.stripExif ? ' · Photo details hidden' : ' · Shows when the photo was taken'}
+                </p>
+                <p className="text-xs text-gray-500">
+                  Created {format(new Date(link.createdAt), 'MMM d, yyyy')}
+                  {' · '}
+                  {link.expiresAt
+                    ? `${link.isActive ? 'Expires' : 'Expired'} ${format(new Date(link.expiresAt), 'MMM d, yyyy HH:mm')}`
+                    : 'Never expires'}
+                </p>
+                {link.isActive && (
+                  <div className="flex gap-2">
+                    <Input readOnly value={shareUrl} onFocus={(e) => e.target.select()} />
+                    <Button type="button" variant="outline" onClick={() => handleCopy(shareUrl)}>
+                      <Copy className="h-4 w-4 mr-1" />
+                      Copy
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                      onClick={() => revokeMutation.mutate(link.id)}
+                      disabled={revokeMutation.isPending}
+                    >
+                      <Link2Off className="h-4 w-4 mr-1" />
+                      Revoke
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <p className="text-sm text-gray-600">
+          {activeLinks.length > 0 ? 'Create another link:' : 'Only you can see this entry. Create a link to share it:'}
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="share-label">Label</Label>
+            <Input
+              id="share-label"
+              placeholder="e.g. Host family"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Expires</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="share-passphrase">Passphrase (optional)</Label>
+            <Input
+              id="share-passphrase"
+              type="password"
+              autoComplete="new-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1">
+            <Label>Location shown</Label>
+            <Select value={locationPrecision} onValueChange={(value) => setLocationPrecision(value as LocationPrecision)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRECISION_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 sm:col-span-2 h-10">
+            <Checkbox
+              id="share-strip-exif"
+              checked={stripExif}
+              onCheckedChange={(checked) => setStripExif(checked === true)}
+            />
+            <Label htmlFor="share-strip-exif">Hide photo details (when it was taken)</Label>
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCreate}
+          disabled={createMutation.isPending || (passphrase.length > 0 && passphrase.length < 4)}
+        >
+          <Link2 className="h-4 w-4 mr-1" />
+          {createMutation.isPending ? 'Creating link...' : 'Create share link'}
+        </Button>
+      </div>
+    </div>
+  );
+}
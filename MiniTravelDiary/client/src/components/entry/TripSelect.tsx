@@ -0,0 +1,42 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { TripSummary } from '@shared/schema';
+
+const NO_TRIP = 'none';
+
+interface TripSelectProps {
+  tripId: number | null;
+  onChange: (tripId: number | null) => void;
+}
+
+/**
+ * Picks which of the user's trips an entry belongs to, if any.
+ */
+export function TripSelect({ tripId, onChange }: TripSelectProps) {
+  const { data: trips } = useQuery<TripSummary[]>({
+    queryKey: ['/api/trips'],
+  });
+
+  return (
+    <Select
+      value={tripId ? String(tripId) : NO_TRIP}
+      onValueChange={(value) => onChange(value === NO_TRIP ? null : Number(value))}
+    >
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TRIP}>No trip</SelectItem>
+        {trips?.map((trip) => (
+          <SelectItem key={trip.id} value={String(trip.id)}>{trip.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
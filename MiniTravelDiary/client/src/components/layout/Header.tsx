@@ -87,6 +87,26 @@ export function Header({ showAuthButtons = true }: HeaderProps) {
                         <div className="w-full cursor-pointer">Your Entries</div>
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem>
+                      <Link href="/trips">
+                        <div className="w-full cursor-pointer">Trips</div>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem>
+                      <Link href="/map">
+                        <div className="w-full cursor-pointer">Map</div>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem>
+                      <Link href="/trash">
+                        <div className="w-full cursor-pointer">Trash</div>
+                      </Link>
+                    </DropdownMenuItem>
+                    <DropdownMenuItem>
+                      <Link href="/settings">
+                        <div className="w-full cursor-pointer">Settings</div>
+                      </Link>
+                    </DropdownMenuItem>
                     <DropdownMenuItem>
                       <button className="w-full text-left" onClick={handleSignOut}>
                         Sign Out
@@ -0,0 +1,380 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'wouter';
+import { geoNaturalEarth1, geoPath, type GeoProjection } from 'd3-geo';
+import { feature } from 'topojson-client';
+import type { GeometryCollection, Topology } from 'topojson-specification';
+import countriesUrl from 'world-atlas/countries-110m.json?url';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EntryImage } from '@/components/entry/EntryImage';
+import { getEntryTakenAt } from '@/lib/media';
+import { formatPlace } from '@/lib/places';
+import { cn } from '@/lib/utils';
+import { DiaryEntry } from '@shared/schema';
+import { Minus, Plus, RotateCcw, X } from 'lucide-react';
+
+// The map is drawn in these units and scaled to fit its container
+const WIDTH = 960;
+const HEIGHT = 500;
+const MAX_ZOOM = 32;
+// Markers closer than this on screen, in map units, are drawn as one
+const CLUSTER_CELL = 40;
+// A pointer that moves less than this between down and up has clicked
+const DRAG_THRESHOLD = 4;
+// How long the view must stay put before its bounds are reported
+const BOUNDS_DELAY_MS = 300;
+
+type MappedEntry = DiaryEntry & { location: NonNullable<DiaryEntry['location']> };
+
+interface Transform {
+  k: number;
+  x: number;
+  y: number;
+}
+
+interface Cluster {
+  key: string;
+  // Where the cluster is drawn, before zooming
+  point: [number, number];
+  entries: MappedEntry[];
+  // Whether zooming in could split the cluster; entries at one spot never split
+  canSplit: boolean;
+}
+
+/**
+ * An area between two latitudes and two longitudes, as the bbox filter on
+ * /api/entries takes it.
+ */
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+const identity: Transform = { k: 1, x: 0, y: 0 };
+
+// Keep the map covering the view so it can't be dragged out of sight
+function clampTransform({ k, x, y }: Transform): Transform {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, k));
+  return {
+    k: scale,
+    x: Math.min(0, Math.max(WIDTH * (1 - scale), x)),
+    y: Math.min(0, Math.max(HEIGHT * (1 - scale), y)),
+  };
+}
+
+// Zoom by `factor` while keeping the map point under (cx, cy) in place
+function zoomAround(transform: Transform, factor: number, cx: number, cy: number): Transform {
+  const k = Math.min(MAX_ZOOM, Math.max(1, transform.k * factor));
+  const ratio = k / transform.k;
+  return clampTransform({ k, x: cx - (cx - transform.x) * ratio, y: cy - (cy - transform.y) * ratio });
+}
+
+// Where a point on screen falls in map units
+function toMapPoint(svg: SVGSVGElement, clientX: number, clientY: number): [number, number] {
+  const rect = svg.getBoundingClientRect();
+  return [((clientX - rect.left) * WIDTH) / rect.width, ((clientY - rect.top) * HEIGHT) / rect.height];
+}
+
+/**
+ * The part of the world in view at `transform`. Natural Earth's parallels are
+ * straight, so latitude only depends on height, and its meridians bunch up
+ * away from the equator, so the edge farthest from it spans the most longitude.
+ */
+function visibleBounds(projection: GeoProjection, { k, x, y }: Transform): MapBounds {
+  const [centerX, northPoleY] = projection([0, 90])!;
+  const southPoleY = projection([0, -90])![1];
+  const latitudeAt = (mapY: number) => {
+    if (mapY <= northPoleY) {
+      return 90;
+    }
+    return mapY >= southPoleY ? -90 : projection.invert!([centerX, mapY])![1];
+  };
+
+  const north = latitudeAt(-y / k);
+  const south = latitudeAt((HEIGHT - y) / k);
+  const widest = Math.max(Math.abs(north), Math.abs(south));
+  const unitsPerDegree = (projection([90, widest])![0] - centerX) / 90;
+  return {
+    west: Math.max(-180, (-x / k - centerX) / unitsPerDegree),
+    south,
+    east: Math.min(180, ((WIDTH - x) / k - centerX) / unitsPerDegree),
+    north,
+  };
+}
+
+/**
+ * Group markers that would overlap at zoom `k` by the screen cell they fall
+ * in, each cluster sitting at the average of its entries.
+ */
+function clusterMarkers(points: { entry: MappedEntry; point: [number, number] }[], k: number): Cluster[] {
+  const cells = new Map<string, { entry: MappedEntry; point: [number, number] }[]>();
+  for (const marker of points) {
+    const key = `${Math.floor((marker.point[0] * k) / CLUSTER_CELL)}:${Math.floor((marker.point[1] * k) / CLUSTER_CELL)}`;
+    cells.set(key, [...(cells.get(key) ?? []), marker]);
+  }
+
+  return Array.from(cells, ([key, markers]) => {
+    const xs = markers.map(({ point }) => point[0]);
+    const ys = markers.map(({ point }) => point[1]);
+    const spread = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+    return {
+      key,
+      point: [
+        xs.reduce((sum, x) => sum + x, 0) / markers.length,
+        ys.reduce((sum, y) => sum + y, 0) / markers.length,
+      ],
+      entries: markers.map(({ entry }) => entry),
+      canSplit: spread * MAX_ZOOM >= CLUSTER_CELL / 2,
+    };
+  });
+}
+
+interface EntryMapProps {
+  entries: MappedEntry[];
+  // Called with the area in view once the map stops moving
+  onBoundsChange?: (bounds: MapBounds) => void;
+}
+
+/**
+ * A world map of `entries`, drawn from the bundled country boundaries. Nearby
+ * entries are clustered; clicking a cluster zooms in, and clicking a single
+ * entry (or a cluster at full zoom) lists it with a link to the entry.
+ */
+export function EntryMap({ entries, onBoundsChange }: EntryMapProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; origin: Transform; moved: boolean } | null>(null);
+  // Whether the last pointer press dragged the map, so its click is ignored
+  const wasDraggedRef = useRef(false);
+  const [transform, setTransform] = useState<Transform>(identity);
+  const [selected, setSelected] = useState<Cluster | null>(null);
+
+  const { data: topology, isLoading, error } = useQuery<Topology<{ countries: GeometryCollection }>>({
+    queryKey: [countriesUrl],
+  });
+
+  const projection = useMemo(() => geoNaturalEarth1().fitSize([WIDTH, HEIGHT], { type: 'Sphere' }), []);
+  const path = useMemo(() => geoPath(projection), [projection]);
+
+  const countries = useMemo(() => {
+    if (!topology) {
+      return [];
+    }
+    return feature(topology, topology.objects.countries).features.map((country) => ({
+      key: String(country.id),
+      d: path(country) ?? '',
+    }));
+  }, [topology, path]);
+
+  const points = useMemo(
+    () => entries.flatMap((entry) => {
+      const point = projection([entry.location.lng, entry.location.lat]);
+      return point ? [{ entry, point }] : [];
+    }),
+    [entries, projection],
+  );
+
+  const clusters = useMemo(() => clusterMarkers(points, transform.k), [points, transform.k]);
+
+  // The popup's entries may have been filtered out since it opened
+  useEffect(() => {
+    const ids = new Set(entries.map((entry) => entry.id));
+    setSelected((current) => (current?.entries.every((entry) => ids.has(entry.id)) ? current : null));
+  }, [entries]);
+
+  useEffect(() => {
+    if (!onBoundsChange) {
+      return;
+    }
+    const timeout = setTimeout(() => onBoundsChange(visibleBounds(projection, transform)), BOUNDS_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [transform, projection, onBoundsChange]);
+
+  // React's wheel listener is passive, so attach one that can stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) {
+      return;
+    }
+
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const [cx, cy] = toMapPoint(svg, event.clientX, event.clientY);
+      setTransform((current) => zoomAround(current, event.deltaY < 0 ? 1.25 : 0.8, cx, cy));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [topology]);
+
+  const handlePointerDown = (event: PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { startX: event.clientX, startY: event.clientY, origin: transform, moved: false };
+  };
+
+  const handlePointerMove = (event: PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) {
+      return;
+    }
+
+    const dx = event.clientX - drag.startX;
+    const dy = event.clientY - drag.startY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) {
+      return;
+    }
+    if (!drag.moved) {
+      drag.moved = true;
+      svg.setPointerCapture(event.pointerId);
+    }
+
+    const scale = WIDTH / svg.getBoundingClientRect().width;
+    setTransform(clampTransform({ ...drag.origin, x: drag.origin.x + dx * scale, y: drag.origin.y + dy * scale }));
+  };
+
+  const handlePointerUp = () => {
+    wasDraggedRef.current = !!dragRef.current?.moved;
+    dragRef.current = null;
+  };
+
+  const handleClusterClick = (cluster: Cluster) => {
+    if (wasDraggedRef.current) {
+      return;
+    }
+
+    if (cluster.entries.length > 1 && transform.k < MAX_ZOOM && cluster.canSplit) {
+      const [px, py] = cluster.point;
+      setSelected(null);
+      setTransform((current) => zoomAround(current, 4, px * current.k + current.x, py * current.k + current.y));
+    } else {
+      setSelected(cluster);
+    }
+  };
+
+  const zoomBy = (factor: number) => {
+    setTransform((current) => zoomAround(current, factor, WIDTH / 2, HEIGHT / 2));
+  };
+
+  if (isLoading) {
+    return <Skeleton className="w-full aspect-[96/50]" />;
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 text-red-500 p-4 rounded-md">
+        <p>Error loading the map. Please try again later.</p>
+      </div>
+    );
+  }
+
+  const popupLeft = selected && ((selected.point[0] * transform.k + transform.x) / WIDTH) * 100;
+  const popupTop = selected && ((selected.point[1] * transform.k + transform.y) / HEIGHT) * 100;
+  // Open below markers near the top so the popup isn't cut off
+  const isPopupBelow = popupTop !== null && popupTop < 50;
+
+  return (
+    <div className="relative bg-white rounded-lg shadow-md overflow-hidden">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto touch-none select-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <g transform={`translate(${transform.x} ${transform.y}) scale(${transform.k})`}>
+          <path d={path({ type: 'Sphere' }) ?? ''} className="fill-sky-50" />
+          {countries.map((country) => (
+            <path
+              key={country.key}
+              d={country.d}
+              className="fill-gray-200 stroke-white"
+              strokeWidth={0.5}
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </g>
+        {clusters.map((cluster) => {
+          const x = cluster.point[0] * transform.k + transform.x;
+          const y = cluster.point[1] * transform.k + transform.y;
+          const count = cluster.entries.length;
+          return (
+            <g
+              key={cluster.key}
+              transform={`translate(${x} ${y})`}
+              className="cursor-pointer"
+              onClick={() => handleClusterClick(cluster)}
+            >
+              <circle
+                r={count > 1 ? Math.min(18, 9 + Math.log2(count) * 2) : 6}
+                className="fill-primary stroke-white"
+                strokeWidth={2}
+              />
+              {count > 1 && (
+                <text textAnchor="middle" dy="0.35em" className="fill-white text-[10px] font-semibold pointer-events-none">
+                  {count}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      <div className="absolute top-3 right-3 flex flex-col gap-1">
+        <Button type="button" variant="outline" size="icon" className="h-8 w-8 bg-white" onClick={() => zoomBy(2)}>
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="outline" size="icon" className="h-8 w-8 bg-white" onClick={() => zoomBy(0.5)}>
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Button type="button" variant="outline" size="icon" className="h-8 w-8 bg-white" onClick={() => setTransform(identity)}>
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {selected && (
+        <div
+          className={cn(
+            'absolute z-10 w-64 -translate-x-1/2 bg-white rounded-md shadow-lg border',
+            isPopupBelow ? 'mt-3' : '-translate-y-full -mt-3',
+          )}
+          style={{ left: `${popupLeft}%`, top: `${popupTop}%` }}
+        >
+          <div className="flex items-center justify-between px-3 pt-2">
+            <p className="text-xs text-gray-500">
+              {selected.entries.length === 1 ? '1 entry' : `${selected.entries.length} entries`}
+            </p>
+            <Button type="button" variant="ghost" size="icon" className="h-6 w-6" onClick={() => setSelected(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="max-h-64 overflow-y-auto p-2 space-y-1">
+            {selected.entries.map((entry) => (
+              <Link key={entry.id} href={`/entry/${entry.id}`}>
+                <div className="flex items-center gap-2 p-1 rounded hover:bg-gray-50 cursor-pointer">
+                  <EntryImage
+                    entry={entry}
+                    sizes="48px"
+                    alt={entry.caption}
+                    className="h-12 w-12 rounded object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{entry.caption}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {[entry.place && formatPlace(entry.place), format(getEntryTakenAt(entry), 'MMM d, yyyy')]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
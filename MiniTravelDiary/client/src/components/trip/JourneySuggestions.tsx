@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { EntryImage } from '@/components/entry/EntryImage';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatTripDates } from '@/lib/trips';
+import { JourneySuggestionSummary, TripSummary } from '@shared/schema';
+import { Combine, Scissors, Sparkles } from 'lucide-react';
+
+interface SuggestionCardProps {
+  suggestion: JourneySuggestionSummary;
+  // The suggestion that comes after this one, which it can be merged with
+  next?: JourneySuggestionSummary;
+}
+
+function SuggestionCard({ suggestion, next }: SuggestionCardProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(suggestion.name);
+
+  const onError = (action: string) => (error: Error) => {
+    toast({
+      title: 'Error',
+      description: `Failed to ${action}: ${error.message}`,
+      variant: 'destructive',
+    });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/journey-suggestions/${suggestion.id}/accept`, { name: name.trim() });
+      return await res.json() as TripSummary;
+    },
+    onSuccess: (trip) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/journey-suggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      toast({
+        title: 'Trip Created',
+        description: `${trip.entryCount} ${trip.entryCount === 1 ? 'entry was' : 'entries were'} added to "${trip.name}".`,
+      });
+    },
+    onError: onError('create trip'),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (suggestionId: number) => {
+      return await apiRequest('POST', `/api/journey-suggestions/${suggestion.id}/merge`, { suggestionId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/journey-suggestions'] });
+    },
+    onError: onError('merge suggestions'),
+  });
+
+  const splitMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      return await apiRequest('POST', `/api/journey-suggestions/${suggestion.id}/split`, { entryId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/journey-suggestions'] });
+    },
+    onError: onError('split suggestion'),
+  });
+
+  const isBusy = acceptMutation.isPending || mergeMutation.isPending || splitMutation.isPending;
+  const count = suggestion.entries.length;
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <Input
+          className="max-w-sm"
+          aria-label="Trip name"
+          maxLength={100}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <p className="text-sm text-gray-500">
+          {formatTripDates(suggestion)} · {count} {count === 1 ? 'entry' : 'entries'}
+        </p>
+      </div>
+
+      <div className="flex items-center gap-1 overflow-x-auto pb-1">
+        {suggestion.entries.map((entry, index) => (
+          <div key={entry.id} className="flex items-center gap-1 flex-shrink-0">
+            {index > 0 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 text-gray-400 hover:text-gray-700"
+                title="Split the journey here"
+                onClick={() => splitMutation.mutate(entry.id)}
+                disabled={isBusy}
+              >
+                <Scissors className="h-3 w-3" />
+              </Button>
+            )}
+            <EntryImage
+              entry={entry}
+              sizes="64px"
+              alt={entry.caption}
+              className="w-16 h-16 rounded object-cover"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          onClick={() => acceptMutation.mutate()}
+          disabled={isBusy || !name.trim()}
+        >
+          {acceptMutation.isPending ? 'Creating trip...' : 'Create trip'}
+        </Button>
+        {next && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => mergeMutation.mutate(next.id)}
+            disabled={isBusy}
+          >
+            <Combine className="h-4 w-4 mr-1" />
+            Merge with next
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Journeys proposed from the entries that aren't in a trip yet, which the
+ * user can turn into trips, merge or split. Renders nothing without any.
+ */
+export function JourneySuggestions() {
+  // Entries join trips and get trashed from other pages, so always refetch
+  const { data: suggestions } = useQuery<JourneySuggestionSummary[]>({
+    queryKey: ['/api/journey-suggestions'],
+    refetchOnMount: 'always',
+  });
+
+  if (!suggestions || suggestions.length === 0) {
+    return null;
+  }
+
+  const ordered = [...suggestions].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md mb-8">
+      <div className="px-4 pt-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Sparkles className="h-5 w-5 text-primary mr-2" />
+          Suggested Trips
+        </h3>
+        <p className="text-sm text-gray-600 mt-1">
+          These entries look like they belong together. Create a trip from them, or merge and split
+          the suggestions first.
+        </p>
+      </div>
+      <div className="divide-y divide-gray-100">
+        {ordered.map((suggestion, index) => (
+          <SuggestionCard
+            key={`${suggestion.id}:${suggestion.entryIds.join(',')}`}
+            suggestion={suggestion}
+            next={ordered[index + 1]}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
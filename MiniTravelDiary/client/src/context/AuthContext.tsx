@@ -1,5 +1,6 @@
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { supabase } from '@/lib/supabase';
+import { queryClient, setAuthHandlers } from '@/lib/queryClient';
 import { Session, User } from '@supabase/supabase-js';
 
 interface AuthContextType {
@@ -21,12 +22,15 @@ export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  // Mirrors `session` so the fetch layer always reads the latest token
+  const sessionRef = useRef<Session | null>(null);
 
   useEffect(() => {
     // Check active session on load
     const getSession = async () => {
       setIsLoading(true);
       const { data: { session } } = await supabase.auth.getSession();
+      sessionRef.current = session;
       setSession(session);
       setUser(session?.user ?? null);
       setIsLoading(false);
@@ -35,7 +39,12 @@ export function AuthProvider({ children }: AuthProviderProps) {
     getSession();
 
     // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        // Drop cached entries so the next user never sees them
+        queryClient.clear();
+      }
+      sessionRef.current = session;
       setSession(session);
       setUser(session?.user ?? null);
       setIsLoading(false);
@@ -46,6 +55,26 @@ export function AuthProvider({ children }: AuthProviderProps) {
     };
   }, []);
 
+  useEffect(() => {
+    setAuthHandlers({
+      getAccessToken: () => sessionRef.current?.access_token ?? null,
+      refreshAccessToken: async () => {
+        const { data, error } = await supabase.auth.refreshSession();
+        if (error || !data.session) {
+          console.error('Error refreshing session:', error?.message);
+          return null;
+        }
+        sessionRef.current = data.session;
+        return data.session.access_token;
+      },
+      signOut: () => signOut(),
+    });
+
+    return () => {
+      setAuthHandlers(null);
+    };
+  }, []);
+
   const signIn = async (email: string, password: string): Promise<{success: boolean; message?: string}> => {
     try {
       const { error, data } = await supabase.auth.signInWithPassword({ email, password });
@@ -101,6 +130,11 @@ export function AuthProvider({ children }: AuthProviderProps) {
       await supabase.auth.signOut();
     } catch (error) {
       console.error('Error signing out:', error);
+    } finally {
+      sessionRef.current = null;
+      setSession(null);
+      setUser(null);
+      queryClient.clear();
     }
   };
 
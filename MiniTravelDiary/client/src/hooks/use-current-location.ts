@@ -0,0 +1,44 @@
+import { useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import type { Coordinates } from '@/components/entry/LocationField';
+
+/**
+ * Asks the browser where the user is, reporting any failure as a toast.
+ */
+export function useCurrentLocation() {
+  const { toast } = useToast();
+  const [isGettingLocation, setIsGettingLocation] = useState(false);
+
+  const getLocation = (onLocated: (location: Coordinates) => void) => {
+    setIsGettingLocation(true);
+    if (navigator.geolocation) {
+      navigator.geolocation.getCurrentPosition(
+        (position) => {
+          onLocated({
+            lat: position.coords.latitude,
+            lng: position.coords.longitude,
+          });
+          setIsGettingLocation(false);
+        },
+        (error) => {
+          console.error('Error getting location:', error);
+          toast({
+            title: 'Location Error',
+            description: 'Unable to get your current location.',
+            variant: 'destructive',
+          });
+          setIsGettingLocation(false);
+        }
+      );
+    } else {
+      toast({
+        title: 'Location Not Supported',
+        description: 'Geolocation is not supported by your browser.',
+        variant: 'destructive',
+      });
+      setIsGettingLocation(false);
+    }
+  };
+
+  return { getLocation, isGettingLocation };
+}
@@ -0,0 +1,10 @@
+/**
+ * A distance in meters for display, e.g. "350 m", "2.3 km" or "120 km".
+ */
+export function formatDistance(meters: number) {
+  if (Math.round(meters) < 1000) {
+    return `${Math.round(meters)} m`;
+  }
+  const km = meters / 1000;
+  return km < 10 ? `${km.toFixed(1)} km` : `${Math.round(km)} km`;
+}
@@ -0,0 +1,168 @@
+import { DiaryEntry, UploadedMedia, UploadStatus } from '@shared/schema';
+import { authFetch, throwIfResNotOk } from './queryClient';
+
+export function getMediaUrl(mediaId: string) {
+  return `/api/media/${mediaId}`;
+}
+
+/**
+ * The URL to display an entry's photo from. Entries created before the media
+ * store still carry their image inline as a data URL.
+ */
+export function getEntryImageUrl(entry: Pick<DiaryEntry, 'mediaId' | 'imageUrl'>) {
+  return entry.mediaId ? getMediaUrl(entry.mediaId) : entry.imageUrl ?? undefined;
+}
+
+/**
+ * A photo's capture time as the camera's wall-clock time. Any offset is
+ * dropped rather than converting it into the viewer's time zone.
+ */
+export function parseCapturedAt(capturedAt: string) {
+  return new Date(capturedAt.slice(0, 19));
+}
+
+/**
+ * When an entry's photo was taken, falling back to when the entry was created.
+ */
+export function getEntryTakenAt(entry: Pick<DiaryEntry, 'capturedAt' | 'createdAt'>) {
+  return entry.capturedAt ? parseCapturedAt(entry.capturedAt) : new Date(entry.createdAt);
+}
+
+// Wait this long before each retry of a chunk that failed in transit
+const RETRY_DELAYS_MS = [1000, 2000, 5000, 10000, 20000, 30000];
+
+// A chunk that didn't make it intact and can be sent again
+class ChunkFailedError extends Error {}
+
+/**
+ * An upload the server refused, e.g. because the file isn't a supported
+ * image. `message` is the server's explanation and `code` names the check
+ * that failed.
+ */
+export class UploadRejectedError extends Error {
+  constructor(message: string, public code?: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+async function throwIfRejected(res: Response) {
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new UploadRejectedError(body.message || res.statusText, body.code);
+  }
+}
+
+interface UploadOptions {
+  onProgress?: (fraction: number) => void;
+}
+
+// Unfinished uploads are remembered per file so picking the same photo again
+// (after a reload, or a failed attempt) resumes instead of starting over
+function resumeKey(file: File) {
+  return `upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function sha256Base64(data: ArrayBuffer) {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return btoa(String.fromCharCode(...Array.from(digest)));
+}
+
+async function getUploadStatus(id: string): Promise<UploadStatus | undefined> {
+  const res = await authFetch(`/api/uploads/${id}`);
+  if (res.status === 404) {
+    return undefined;
+  }
+
+  await throwIfResNotOk(res);
+  return await res.json();
+}
+
+async function startOrResumeUpload(file: File): Promise<UploadStatus> {
+  const savedId = localStorage.getItem(resumeKey(file));
+  const saved = savedId ? await getUploadStatus(savedId) : undefined;
+  if (saved) {
+    return saved;
+  }
+
+  const res = await authFetch('/api/uploads', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ contentType: file.type, size: file.size }),
+  });
+  await throwIfRejected(res);
+  const status: UploadStatus = await res.json();
+  localStorage.setItem(resumeKey(file), status.id);
+  return status;
+}
+
+async function sendNextChunk(file: File, status: UploadStatus): Promise<UploadStatus> {
+  const chunk = await file.slice(status.received, status.received + status.chunkSize).arrayBuffer();
+  const res = await authFetch(`/api/uploads/${status.id}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(status.received),
+      'Upload-Checksum': `sha256 ${await sha256Base64(chunk)}`,
+    },
+    body: chunk,
+  });
+
+  // The server already has more than we thought; carry on from there
+  if (res.status === 409) {
+    const { received } = await res.json();
+    return { ...status, received };
+  }
+
+  if (res.status === 422 || res.status >= 500) {
+    throw new ChunkFailedError(`${res.status}: ${await res.text()}`);
+  }
+
+  await throwIfRejected(res);
+  return await res.json();
+}
+
+/**
+ * Upload a photo to the media store in checksummed chunks, returning its
+ * record. Dropped connections are retried from the last chunk the server
+ * received, so a flaky network only costs the chunk in flight. Identical
+ * files resolve to the same media ID.
+ */
+export async function uploadMedia(file: File, { onProgress }: UploadOptions = {}): Promise<UploadedMedia> {
+  let status = await startOrResumeUpload(file);
+  let failures = 0;
+
+  try {
+    while (!status.media) {
+      onProgress?.(status.received / status.size);
+
+      try {
+        status = await sendNextChunk(file, status);
+        failures = 0;
+      } catch (error) {
+        // fetch() rejects with a TypeError when the connection drops
+        const retryable = error instanceof TypeError || error instanceof ChunkFailedError;
+        if (!retryable || failures >= RETRY_DELAYS_MS.length) {
+          throw error;
+        }
+
+        await sleep(RETRY_DELAYS_MS[failures++]);
+        // Part of the chunk may have landed; ask where to pick up from
+        status = await getUploadStatus(status.id).catch(() => status) ?? status;
+      }
+    }
+  } catch (error) {
+    if (!(error instanceof TypeError)) {
+      localStorage.removeItem(resumeKey(file));
+    }
+    throw error;
+  }
+
+  localStorage.removeItem(resumeKey(file));
+  onProgress?.(1);
+  return status.media;
+}
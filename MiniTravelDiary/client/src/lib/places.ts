@@ -0,0 +1,15 @@
+import { EntryPlace } from '@shared/schema';
+
+/**
+ * A place's short name for lists, e.g. "Fujinomiya, Japan".
+ */
+export function formatPlace(place: EntryPlace) {
+  return `${place.city}, ${place.country}`;
+}
+
+/**
+ * A place's full name, region included, e.g. "Fujinomiya, Shizuoka Prefecture, Japan".
+ */
+export function formatPlaceInFull(place: EntryPlace) {
+  return [place.city, place.region, place.country].filter(Boolean).join(', ');
+}
@@ -1,22 +1,81 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
-async function throwIfResNotOk(res: Response) {
+export async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
   }
 }
 
+interface AuthHandlers {
+  getAccessToken: () => string | null;
+  refreshAccessToken: () => Promise<string | null>;
+  signOut: () => Promise<void>;
+}
+
+let authHandlers: AuthHandlers | null = null;
+let pendingRefresh: Promise<string | null> | null = null;
+
+/**
+ * Called by AuthProvider so requests can authenticate with the current
+ * Supabase session without every caller threading the token through.
+ */
+export function setAuthHandlers(handlers: AuthHandlers | null) {
+  authHandlers = handlers;
+}
+
+// Concurrent 401s share a single refresh instead of racing each other
+function refreshAccessToken(handlers: AuthHandlers): Promise<string | null> {
+  if (!pendingRefresh) {
+    pendingRefresh = handlers
+      .refreshAccessToken()
+      .catch(() => null)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+}
+
+/**
+ * fetch() with the session's bearer token attached. A 401 triggers one token
+ * refresh and retry; if the refresh fails the user is signed out.
+ */
+export async function authFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  const send = (token: string | null) => {
+    const headers = new Headers(init.headers);
+    if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+    }
+    return fetch(url, { ...init, headers, credentials: "include" });
+  };
+
+  const handlers = authHandlers;
+  const token = handlers?.getAccessToken() ?? null;
+  const res = await send(token);
+
+  if (res.status !== 401 || !handlers || !token) {
+    return res;
+  }
+
+  const refreshedToken = await refreshAccessToken(handlers);
+  if (!refreshedToken) {
+    await handlers.signOut();
+    return res;
+  }
+
+  return send(refreshedToken);
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
 ): Promise<Response> {
-  const res = await fetch(url, {
+  const res = await authFetch(url, {
     method,
     headers: data ? { "Content-Type": "application/json" } : {},
     body: data ? JSON.stringify(data) : undefined,
-    credentials: "include",
   });
 
   await throwIfResNotOk(res);
@@ -29,9 +88,7 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey[0] as string, {
-      credentials: "include",
-    });
+    const res = await authFetch(queryKey[0] as string);
 
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
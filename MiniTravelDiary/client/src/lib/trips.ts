@@ -0,0 +1,23 @@
+import { format, parseISO } from 'date-fns';
+import { Trip } from '@shared/schema';
+
+/**
+ * A trip's date range for display, e.g. "Mar 3 – Mar 12, 2025", or null if
+ * it has no dates yet.
+ */
+export function formatTripDates(trip: Pick<Trip, 'startDate' | 'endDate'>) {
+  const start = trip.startDate ? parseISO(trip.startDate) : null;
+  const end = trip.endDate ? parseISO(trip.endDate) : null;
+
+  if (start && end) {
+    const sameYear = start.getFullYear() === end.getFullYear();
+    return `${format(start, sameYear ? 'MMM d' : 'MMM d, yyyy')} – ${format(end, 'MMM d, yyyy')}`;
+  }
+  if (start) {
+    return `From ${format(start, 'MMM d, yyyy')}`;
+  }
+  if (end) {
+    return `Until ${format(end, 'MMM d, yyyy')}`;
+  }
+  return null;
+}
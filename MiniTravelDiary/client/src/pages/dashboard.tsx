@@ -5,13 +5,31 @@ import { useAuth } from '@/context/AuthContext';
 import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { DiaryEntry } from '@shared/schema';
-import { Calendar, MapPin, Monitor, Plus, Camera } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { EntryCard } from '@/components/entry/EntryCard';
+import { EntryImage } from '@/components/entry/EntryImage';
+import { NearbyMemories } from '@/components/entry/NearbyMemories';
+import { getShareUrl } from '@/components/entry/SharePanel';
+import { JourneySuggestions } from '@/components/trip/JourneySuggestions';
+import { DiaryEntry, ShareLinkSummary, TripSummary } from '@shared/schema';
+import { Plus, Camera, Eye, Link2, Lock, Luggage } from 'lucide-react';
 import { format } from 'date-fns';
 
+// Trip filter values besides a trip's ID
+const ALL_TRIPS = 'all';
+const NO_TRIP = 'none';
+
 export default function Dashboard() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
+  const [tripFilter, setTripFilter] = useState(ALL_TRIPS);
   
   // Redirect to home if not logged in
   useEffect(() => {
@@ -21,18 +39,35 @@ export default function Dashboard() {
   }, [user, navigate]);
 
   const { data: entries, isLoading, error } = useQuery<DiaryEntry[]>({
-    queryKey: ['/api/entries', user?.id],
-    queryFn: async () => {
-      if (!user?.id) throw new Error('User not authenticated');
-      const response = await fetch(`/api/entries?userId=${user.id}`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch entries');
-      }
-      return response.json();
-    },
+    queryKey: ['/api/entries'],
+    enabled: !!user,
+  });
+
+  const { data: shareLinks } = useQuery<ShareLinkSummary[]>({
+    queryKey: ['/api/share-links'],
+    enabled: !!user,
+  });
+
+  const { data: trips } = useQuery<TripSummary[]>({
+    queryKey: ['/api/trips'],
     enabled: !!user,
   });
 
+  const filteredEntries = (entries ?? []).filter((entry) => {
+    if (tripFilter === ALL_TRIPS) {
+      return true;
+    }
+    return tripFilter === NO_TRIP ? !entry.tripId : entry.tripId === Number(tripFilter);
+  });
+
+  // Pair each live share link with its entry so we can audit what is public
+  const activeShares = (shareLinks ?? [])
+    .filter((link) => link.isActive)
+    .flatMap((link) => {
+      const entry = entries?.find((e) => e.id === link.entryId);
+      return entry ? [{ link, entry }] : [];
+    });
+
   if (!user) {
     return <div className="flex justify-center items-center min-h-screen">Redirecting...</div>;
   }
@@ -88,47 +123,92 @@ export default function Dashboard() {
           )}
 
           {!isLoading && entries && entries.length > 0 && (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
-              {entries.map((entry) => (
-                <Link key={entry.id} href={`/entry/${entry.id}`}>
-                  <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300 block cursor-pointer">
-                    <div className="aspect-w-16 aspect-h-9 relative">
-                      <div className="w-full h-48">
-                        <img 
-                          src={entry.imageUrl} 
-                          alt={entry.caption} 
-                          className="w-full h-full object-cover"
+            <JourneySuggestions />
+          )}
+
+          {!isLoading && entries && entries.some((entry) => entry.location) && (
+            <NearbyMemories />
+          )}
+
+          {!isLoading && entries && entries.length > 0 && (
+            <Tabs defaultValue="all">
+              <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+                <TabsList>
+                  <TabsTrigger value="all">All Entries</TabsTrigger>
+                  <TabsTrigger value="shared">Shared ({activeShares.length})</TabsTrigger>
+                </TabsList>
+                {trips && trips.length > 0 && (
+                  <Select value={tripFilter} onValueChange={setTripFilter}>
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_TRIPS}>All trips</SelectItem>
+                      <SelectItem value={NO_TRIP}>Not in a trip</SelectItem>
+                      {trips.map((trip) => (
+                        <SelectItem key={trip.id} value={String(trip.id)}>{trip.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              <TabsContent value="all">
+                {filteredEntries.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center">
+                    <Luggage className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-600">No entries match this trip filter.</p>
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                    {filteredEntries.map((entry) => (
+                      <EntryCard key={entry.id} entry={entry} />
+                    ))}
+                  </div>
+                )}
+              </TabsContent>
+
+              <TabsContent value="shared">
+                {activeShares.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-8 text-center">
+                    <Link2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                    <p className="text-gray-600">None of your entries are shared publicly.</p>
+                  </div>
+                ) : (
+                  <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+                    {activeShares.map(({ link, entry }) => (
+                      <div key={link.id} className="flex items-center gap-4 p-4">
+                        <EntryImage
+                          entry={entry}
+                          sizes="64px"
+                          alt={entry.caption}
+                          className="w-16 h-16 rounded object-cover flex-shrink-0"
                         />
-                        <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent"></div>
-                        <div className="absolute bottom-0 left-0 p-4">
-                          <p className="text-white font-medium text-lg">{entry.caption}</p>
-                          <p className="text-white/80 text-sm">
-                            {format(new Date(entry.createdAt), 'MMMM d, yyyy')}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                    <div className="p-4">
-                      {entry.location && (
-                        <div className="flex items-center text-sm text-gray-500">
-                          <MapPin className="h-4 w-4 mr-1" />
-                          <span>
-                            {entry.location.lat.toFixed(4)}, {entry.location.lng.toFixed(4)}
-                          </span>
+                        <div className="min-w-0 flex-grow">
+                          <Link href={`/entry/${entry.id}`}>
+                            <p className="font-medium text-gray-900 hover:underline cursor-pointer truncate">{entry.caption}</p>
+                          </Link>
+                          <p className="text-sm text-gray-500 truncate">{getShareUrl(link.id)}</p>
+                          <div className="flex items-center gap-3 text-xs text-gray-500 mt-1">
+                            <span>{link.label || 'Untitled link'}</span>
+                            {link.hasPassphrase && (
+                              <span className="flex items-center"><Lock className="h-3 w-3 mr-1" />Passphrase</span>
+                            )}
+                            <span>
+                              {link.expiresAt ? `Expires ${format(new Date(link.expiresAt), 'MMM d, yyyy')}` : 'Never expires'}
+                            </span>
+                            <span className="flex items-center"><Eye className="h-3 w-3 mr-1" />{link.viewCount}</span>
+                          </div>
                         </div>
-                      )}
-                      <div className="flex items-center text-sm text-gray-500 mt-1">
-                        <Monitor className="h-4 w-4 mr-1" />
-                        <span>
-                          {entry.screenInfo.width}×{entry.screenInfo.height}, 
-                          {entry.screenInfo.orientation}
-                        </span>
+                        <Button variant="outline" size="sm" asChild>
+                          <Link href={`/entry/${entry.id}`}>Manage</Link>
+                        </Button>
                       </div>
-                    </div>
+                    ))}
                   </div>
-                </Link>
-              ))}
-            </div>
+                )}
+              </TabsContent>
+            </Tabs>
           )}
         </div>
       </main>
@@ -0,0 +1,119 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useLocation } from 'wouter';
+import { Header } from '@/components/layout/Header';
+import { useAuth } from '@/context/AuthContext';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { EntryMap, type MapBounds } from '@/components/map/EntryMap';
+import { getEntryTakenAt } from '@/lib/media';
+import { DiaryEntry } from '@shared/schema';
+import { format } from 'date-fns';
+
+// Named so it doesn't shadow the global Map
+export default function MapPage() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [bounds, setBounds] = useState<MapBounds | null>(null);
+
+  // Redirect to home if not logged in
+  useEffect(() => {
+    if (!user) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  // Only the entries in view are fetched, again whenever the map moves
+  const bbox = bounds && [bounds.west, bounds.south, bounds.east, bounds.north]
+    .map((degrees) => degrees.toFixed(4))
+    .join(',');
+  const { data: entries, error } = useQuery<DiaryEntry[]>({
+    queryKey: [`/api/entries?bbox=${bbox}`],
+    enabled: !!user && !!bbox,
+    // Entries are edited and trashed from other pages, so always refetch
+    refetchOnMount: 'always',
+    // Keep the last view's markers up while the new view loads
+    placeholderData: keepPreviousData,
+  });
+
+  // Memoized so the map keeps its open popup until the filter changes
+  const mappedEntries = useMemo(() => (entries ?? []).flatMap((entry) => {
+    const { location } = entry;
+    if (!location) {
+      return [];
+    }
+    // Compare calendar days, as the date inputs do
+    const day = format(getEntryTakenAt(entry), 'yyyy-MM-dd');
+    return (!fromDate || day >= fromDate) && (!toDate || day <= toDate) ? [{ ...entry, location }] : [];
+  }), [entries, fromDate, toDate]);
+
+  if (!user) {
+    return <div className="flex justify-center items-center min-h-screen">Redirecting...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-gray-900">Map</h2>
+            <p className="text-gray-600 mt-1">Everywhere your diary has been.</p>
+          </div>
+
+          <div className="flex flex-wrap items-end gap-3 mb-4">
+            <div className="space-y-1">
+              <Label htmlFor="map-from">From</Label>
+              <Input
+                id="map-from"
+                type="date"
+                max={toDate || undefined}
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="map-to">To</Label>
+              <Input
+                id="map-to"
+                type="date"
+                min={fromDate || undefined}
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+            {(fromDate || toDate) && (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  setFromDate('');
+                  setToDate('');
+                }}
+              >
+                Clear dates
+              </Button>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 text-red-500 p-4 rounded-md mb-4">
+              <p>Error loading your entries. Please try again later.</p>
+            </div>
+          )}
+
+          <EntryMap entries={mappedEntries} onBoundsChange={setBounds} />
+          {entries && (
+            <p className="text-sm text-gray-500 mt-3">
+              {mappedEntries.length === 1 ? '1 entry' : `${mappedEntries.length} entries`} in view
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { Header } from '@/components/layout/Header';
+import { useAuth } from '@/context/AuthContext';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { LocationField, type Coordinates } from '@/components/entry/LocationField';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { InsertPrivacyZone, PrivacyZone, privacyZoneRadiusRange } from '@shared/schema';
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+
+const DEFAULT_RADIUS_METERS = 250;
+
+export default function Settings() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [label, setLabel] = useState('');
+  const [radius, setRadius] = useState(String(DEFAULT_RADIUS_METERS));
+  const [center, setCenter] = useState<Coordinates | null>(null);
+
+  // Redirect to home if not logged in
+  useEffect(() => {
+    if (!user) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  const { data: zones, isLoading, error } = useQuery<PrivacyZone[]>({
+    queryKey: ['/api/privacy-zones'],
+    enabled: !!user,
+  });
+
+  // Entries are flagged against the current zones whenever they are fetched
+  const invalidateZones = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/privacy-zones'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertPrivacyZone) => {
+      return await apiRequest('POST', '/api/privacy-zones', data);
+    },
+    onSuccess: () => {
+      invalidateZones();
+      toast({
+        title: 'Privacy Zone Added',
+        description: 'Entries inside it will no longer reveal their location when shared.',
+      });
+      setLabel('');
+      setRadius(String(DEFAULT_RADIUS_METERS));
+      setCenter(null);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to add privacy zone: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (zoneId: number) => {
+      return await apiRequest('DELETE', `/api/privacy-zones/${zoneId}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateZones();
+      toast({
+        title: 'Privacy Zone Removed',
+        description: 'Entries inside it are shared like any other entry again.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to remove privacy zone: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const radiusMeters = Number(radius);
+  const isRadiusValid = Number.isInteger(radiusMeters)
+    && radiusMeters >= privacyZoneRadiusRange.min
+    && radiusMeters <= privacyZoneRadiusRange.max;
+
+  const handleCreate = () => {
+    if (!center) {
+      return;
+    }
+
+    createMutation.mutate({
+      label: label.trim(),
+      lat: center.lat,
+      lng: center.lng,
+      radiusMeters,
+    });
+  };
+
+  if (!user) {
+    return <div className="flex justify-center items-center min-h-screen">Redirecting...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+
+      <main className="flex-grow">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900">Settings</h2>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900">Privacy Zones</h3>
+            <p className="text-sm text-gray-600 mt-1 mb-6">
+              Entries made inside a privacy zone, such as your home or office, never show
+              their location on shared links. You still see it on your own entries.
+            </p>
+
+            {isLoading && (
+              <div className="space-y-3 mb-6">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            )}
+
+            {error && (
+              <div className="bg-red-50 text-red-500 p-4 rounded-md mb-6">
+                <p>Error loading privacy zones. Please try again later.</p>
+              </div>
+            )}
+
+            {!isLoading && zones && zones.length > 0 && (
+              <div className="divide-y divide-gray-100 mb-6">
+                {zones.map((zone) => (
+                  <div key={zone.id} className="flex items-center gap-3 py-3">
+                    <ShieldCheck className="h-5 w-5 text-green-600 flex-shrink-0" />
+                    <div className="min-w-0 flex-grow">
+                      <p className="font-medium text-gray-900 truncate">{zone.label}</p>
+                      <p className="text-xs text-gray-500">
+                        {zone.radiusMeters} m around {zone.lat.toFixed(4)}, {zone.lng.toFixed(4)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                      onClick={() => deleteMutation.mutate(zone.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">Add a privacy zone:</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="zone-label">Name</Label>
+                  <Input
+                    id="zone-label"
+                    placeholder="e.g. Home"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="zone-radius">Radius (meters)</Label>
+                  <Input
+                    id="zone-radius"
+                    type="number"
+                    min={privacyZoneRadiusRange.min}
+                    max={privacyZoneRadiusRange.max}
+                    step={50}
+                    value={radius}
+                    onChange={(e) => setRadius(e.target.value)}
+                  />
+                </div>
+              </div>
+              <LocationField location={center} onChange={setCenter} label="Zone Center" />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCreate}
+                disabled={createMutation.isPending || !label.trim() || !center || !isRadiusValid}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {createMutation.isPending ? 'Adding zone...' : 'Add privacy zone'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
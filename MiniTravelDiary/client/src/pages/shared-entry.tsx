@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { Link, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { EntryDetails } from '@/components/entry/EntryDetails';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { SharedEntry as SharedEntryData } from '@shared/schema';
+import { Link2Off, Lock } from 'lucide-react';
+
+class SharedEntryError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public passphraseRequired = false,
+  ) {
+    super(message);
+  }
+}
+
+async function fetchSharedEntry(shareId: string, passphrase: string | null): Promise<SharedEntryData> {
+  const res = await fetch(`/api/shared/${shareId}`, {
+    headers: passphrase ? { 'X-Share-Passphrase': passphrase } : {},
+  });
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}));
+    throw new SharedEntryError(res.status, body.message || res.statusText, !!body.passphraseRequired);
+  }
+
+  return await res.json();
+}
+
+export default function SharedEntry() {
+  const [, params] = useRoute('/shared/:shareId');
+  const shareId = params?.shareId;
+  const [passphrase, setPassphrase] = useState<string | null>(null);
+  const [passphraseInput, setPassphraseInput] = useState('');
+
+  const { data: entry, isLoading, error } = useQuery<SharedEntryData, SharedEntryError>({
+    queryKey: [`/api/shared/${shareId}`, passphrase],
+    queryFn: () => fetchSharedEntry(shareId!, passphrase),
+    enabled: !!shareId,
+  });
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPassphrase(passphraseInput);
+  };
+
+  useEffect(() => {
+    if (entry) {
+      document.title = `${entry.caption} - Mini Travel Diary`;
+    }
+  }, [entry]);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+      
+      <main className="flex-grow">
+        <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isLoading && (
+            <div className="bg-white rounded-lg shadow-md overflow-hidden">
+              <Skeleton className="w-full h-64" />
+              <div className="p-6 space-y-4">
+                <Skeleton className="h-8 w-3/4" />
+                <Skeleton className="h-20 w-full" />
+              </div>
+            </div>
+          )}
+
+          {error?.passphraseRequired && (
+            <form onSubmit={handleUnlock} className="bg-white rounded-lg shadow-md p-8 text-center max-w-md mx-auto">
+              <Lock className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">This memory is protected</h3>
+              <p className="text-gray-600 mb-6">Enter the passphrase you were given to view it.</p>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  autoFocus
+                  value={passphraseInput}
+                  onChange={(e) => setPassphraseInput(e.target.value)}
+                  placeholder="Passphrase"
+                />
+                <Button type="submit" disabled={!passphraseInput}>Unlock</Button>
+              </div>
+              {error.status === 403 && (
+                <p className="text-sm text-red-500 mt-3">That passphrase is incorrect.</p>
+              )}
+            </form>
+          )}
+
+          {error && !error.passphraseRequired && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <Link2Off className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <h3 className="text-xl font-medium text-gray-900 mb-2">This memory isn't available</h3>
+              <p className="text-gray-600 mb-6">
+                {error.status === 410
+                  ? 'This share link has expired.'
+                  : 'The link may be mistyped, or its owner has stopped sharing it.'}
+              </p>
+              <Button variant="outline" asChild>
+                <Link href="/">Go to Mini Travel Diary</Link>
+              </Button>
+            </div>
+          )}
+
+          {!isLoading && entry && (
+            <EntryDetails entry={entry} />
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { useLocation } from 'wouter';
+import { Header } from '@/components/layout/Header';
+import { useAuth } from '@/context/AuthContext';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EntryImage } from '@/components/entry/EntryImage';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { DiaryEntry } from '@shared/schema';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+
+interface TrashResponse {
+  entries: DiaryEntry[];
+  retentionDays: number;
+}
+
+export default function Trash() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [entryToPurge, setEntryToPurge] = useState<DiaryEntry | null>(null);
+
+  // Redirect to home if not logged in
+  useEffect(() => {
+    if (!user) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  const { data, isLoading, error } = useQuery<TrashResponse>({
+    queryKey: ['/api/trash'],
+    enabled: !!user,
+  });
+
+  const invalidateEntries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      return await apiRequest('POST', `/api/trash/${entryId}/restore`, undefined);
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      toast({
+        title: 'Entry Restored',
+        description: 'Your diary entry is back on your dashboard.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to restore entry: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (entryId: number) => {
+      return await apiRequest('DELETE', `/api/trash/${entryId}`, undefined);
+    },
+    onSuccess: () => {
+      invalidateEntries();
+      toast({
+        title: 'Entry Deleted',
+        description: 'Your diary entry has been permanently deleted.',
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to delete entry: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const confirmPurge = () => {
+    if (entryToPurge) {
+      purgeMutation.mutate(entryToPurge.id);
+    }
+    setEntryToPurge(null);
+  };
+
+  if (!user) {
+    return <div className="flex justify-center items-center min-h-screen">Redirecting...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+
+      <main className="flex-grow">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900">Trash</h2>
+            <p className="text-gray-600 mt-1">
+              Deleted entries are kept for {data?.retentionDays ?? 30} days before they are removed for good.
+            </p>
+          </div>
+
+          {isLoading && (
+            <div className="space-y-3">
+              <Skeleton className="h-20 w-full" />
+              <Skeleton className="h-20 w-full" />
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-500 p-4 rounded-md">
+              <p>Error loading trash. Please try again later.</p>
+            </div>
+          )}
+
+          {!isLoading && data && data.entries.length === 0 && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <Trash2 className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">The trash is empty.</p>
+            </div>
+          )}
+
+          {!isLoading && data && data.entries.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+              {data.entries.map((entry) => (
+                <div key={entry.id} className="flex items-center gap-4 p-4">
+                  <EntryImage
+                    entry={entry}
+                    sizes="64px"
+                    alt={entry.caption}
+                    className="w-16 h-16 rounded object-cover flex-shrink-0"
+                  />
+                  <div className="min-w-0 flex-grow">
+                    <p className="font-medium text-gray-900 truncate">{entry.caption}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Deleted {formatDistanceToNow(new Date(entry.deletedAt!), { addSuffix: true })}
+                      {' · '}
+                      Removed for good on {format(addDays(new Date(entry.deletedAt!), data.retentionDays), 'MMM d, yyyy')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => restoreMutation.mutate(entry.id)}
+                    disabled={restoreMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="text-red-500 hover:text-red-600"
+                    onClick={() => setEntryToPurge(entry)}
+                    disabled={purgeMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-1" />
+                    Delete Forever
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={!!entryToPurge} onOpenChange={(open) => !open && setEntryToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this entry forever?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This action cannot be undone. The entry, its edit history and
+              any share links will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmPurge}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
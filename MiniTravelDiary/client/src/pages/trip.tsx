@@ -0,0 +1,376 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation, useRoute } from 'wouter';
+import { Header } from '@/components/layout/Header';
+import { useAuth } from '@/context/AuthContext';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EntryCard } from '@/components/entry/EntryCard';
+import { EntryImage } from '@/components/entry/EntryImage';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatTripDates } from '@/lib/trips';
+import { cn } from '@/lib/utils';
+import { DiaryEntry, TripSummary, UpdateTrip } from '@shared/schema';
+import { Camera, Pencil, Plus } from 'lucide-react';
+
+interface TripResponse {
+  trip: TripSummary;
+  // Oldest first, by when each photo was taken
+  entries: DiaryEntry[];
+}
+
+export default function Trip() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const [match, params] = useRoute('/trips/:id');
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [description, setDescription] = useState('');
+  const [coverMediaId, setCoverMediaId] = useState<string | null>(null);
+
+  const tripId = match ? parseInt(params.id) : null;
+
+  // Redirect to home if not logged in
+  useEffect(() => {
+    if (!user) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  // Entries join and leave trips from other pages, so always refetch
+  const { data, isLoading, error } = useQuery<TripResponse>({
+    queryKey: [`/api/trips/${tripId}`],
+    enabled: !!user && !!tripId,
+    refetchOnMount: 'always',
+  });
+
+  const trip = data?.trip;
+  const entries = data?.entries ?? [];
+  const tripPhotos = entries
+    .flatMap((entry) => entry.photos.map((photo) => ({ ...photo, variants: entry.photoVariants?.[photo.mediaId] ?? null })))
+    .filter((photo, index, all) => all.findIndex((other) => other.mediaId === photo.mediaId) === index);
+
+  const startEditing = () => {
+    if (!trip) {
+      return;
+    }
+    setName(trip.name);
+    setStartDate(trip.startDate ?? '');
+    setEndDate(trip.endDate ?? '');
+    setDescription(trip.description ?? '');
+    setCoverMediaId(trip.coverMediaId);
+    setIsEditing(true);
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: UpdateTrip) => {
+      return await apiRequest('PATCH', `/api/trips/${tripId}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/trips/${tripId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      toast({
+        title: 'Trip Updated',
+        description: 'Your changes have been saved.',
+      });
+      setIsEditing(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update trip: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest('DELETE', `/api/trips/${tripId}`, undefined);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      toast({
+        title: 'Trip Deleted',
+        description: 'Its entries are still in your diary.',
+      });
+      navigate('/trips');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to delete trip: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const areDatesValid = !startDate || !endDate || startDate <= endDate;
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || null,
+      startDate: startDate || null,
+      endDate: endDate || null,
+      coverMediaId,
+    });
+  };
+
+  const confirmDelete = () => {
+    deleteMutation.mutate();
+    setIsDeleteDialogOpen(false);
+  };
+
+  if (!user) {
+    return <div className="flex justify-center items-center min-h-screen">Redirecting...</div>;
+  }
+
+  if (!tripId) {
+    return <div className="flex justify-center items-center min-h-screen">Invalid trip ID</div>;
+  }
+
+  const dates = trip && formatTripDates(trip);
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center min-w-0">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mr-2"
+                onClick={() => navigate('/trips')}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
+                </svg>
+              </Button>
+              <h2 className="text-2xl font-bold text-gray-900 truncate">{trip?.name ?? 'Trip'}</h2>
+            </div>
+            {!isEditing && (
+              <div className="flex items-center">
+                <Button variant="ghost" onClick={startEditing} disabled={!trip}>
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+                <Button
+                  variant="ghost"
+                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  onClick={() => setIsDeleteDialogOpen(true)}
+                  disabled={!trip || deleteMutation.isPending}
+                >
+                  {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {isLoading && (
+            <div className="space-y-6">
+              <Skeleton className="h-20 w-full" />
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-48 w-full" />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-500 p-4 rounded-md">
+              <p>Error loading the trip. Please try again later.</p>
+            </div>
+          )}
+
+          {trip && isEditing && (
+            <div className="bg-white rounded-lg shadow-md p-6 mb-8 space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="trip-name">Name</Label>
+                <Input
+                  id="trip-name"
+                  maxLength={100}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="trip-start">Start date</Label>
+                  <Input
+                    id="trip-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="trip-end">End date</Label>
+                  <Input
+                    id="trip-end"
+                    type="date"
+                    min={startDate || undefined}
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              {!areDatesValid && (
+                <p className="text-sm text-red-500">The trip cannot end before it starts.</p>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="trip-description">Description</Label>
+                <Textarea
+                  id="trip-description"
+                  className="resize-none"
+                  rows={3}
+                  maxLength={2000}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              {tripPhotos.length > 0 && (
+                <div className="space-y-2">
+                  <Label>Cover photo</Label>
+                  <div className="flex flex-wrap gap-2">
+                    <button
+                      type="button"
+                      className={cn(
+                        'w-20 h-20 rounded border-2 text-xs text-gray-600 bg-gray-50 px-1',
+                        coverMediaId === null ? 'border-primary' : 'border-transparent',
+                      )}
+                      onClick={() => setCoverMediaId(null)}
+                    >
+                      First entry's photo
+                    </button>
+                    {tripPhotos.map((photo) => (
+                      <button
+                        key={photo.mediaId}
+                        type="button"
+                        className={cn(
+                          'w-20 h-20 rounded border-2 overflow-hidden',
+                          coverMediaId === photo.mediaId ? 'border-primary' : 'border-transparent',
+                        )}
+                        onClick={() => setCoverMediaId(photo.mediaId)}
+                      >
+                        <EntryImage
+                          entry={{ mediaId: photo.mediaId, imageUrl: null, variants: photo.variants }}
+                          sizes="80px"
+                          alt={photo.caption ?? ''}
+                          className="w-full h-full object-cover"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              <div className="flex justify-end">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="mr-3"
+                  onClick={() => setIsEditing(false)}
+                  disabled={updateMutation.isPending}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  className="bg-primary hover:bg-primary/90"
+                  onClick={handleSave}
+                  disabled={updateMutation.isPending || !name.trim() || !areDatesValid}
+                >
+                  {updateMutation.isPending ? 'Saving...' : 'Save Changes'}
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {trip && !isEditing && (dates || trip.description) && (
+            <div className="mb-8">
+              {dates && <p className="text-gray-600">{dates}</p>}
+              {trip.description && <p className="text-gray-700 mt-2 whitespace-pre-line">{trip.description}</p>}
+            </div>
+          )}
+
+          {trip && (
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {trip.entryCount} {trip.entryCount === 1 ? 'entry' : 'entries'}
+              </h3>
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/upload?trip=${trip.id}`}>
+                  <div className="flex items-center">
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Entry
+                  </div>
+                </Link>
+              </Button>
+            </div>
+          )}
+
+          {trip && entries.length === 0 && (
+            <div className="bg-white rounded-lg shadow-md p-8 text-center">
+              <Camera className="h-16 w-16 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">
+                No entries in this trip yet. Pick it when you create an entry, or edit an existing
+                entry to add it.
+              </p>
+            </div>
+          )}
+
+          {entries.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+              {entries.map((entry) => (
+                <EntryCard key={entry.id} entry={entry} />
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this trip?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The trip is removed, but its entries stay in your diary.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={confirmDelete}
+              className="bg-red-500 hover:bg-red-600"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
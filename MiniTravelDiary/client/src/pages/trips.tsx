@@ -0,0 +1,204 @@
+import { useState, useEffect } from 'react';
+import { Link, useLocation } from 'wouter';
+import { Header } from '@/components/layout/Header';
+import { useAuth } from '@/context/AuthContext';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { EntryImage } from '@/components/entry/EntryImage';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { formatTripDates } from '@/lib/trips';
+import { InsertTrip, TripSummary } from '@shared/schema';
+import { Luggage, Plus } from 'lucide-react';
+
+export default function Trips() {
+  const { user } = useAuth();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [description, setDescription] = useState('');
+
+  // Redirect to home if not logged in
+  useEffect(() => {
+    if (!user) {
+      navigate('/');
+    }
+  }, [user, navigate]);
+
+  const { data: trips, isLoading, error } = useQuery<TripSummary[]>({
+    queryKey: ['/api/trips'],
+    enabled: !!user,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertTrip) => {
+      const res = await apiRequest('POST', '/api/trips', data);
+      return await res.json() as TripSummary;
+    },
+    onSuccess: (trip) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      toast({
+        title: 'Trip Created',
+        description: `Add entries to "${trip.name}" when you upload them or from an entry's edit page.`,
+      });
+      setName('');
+      setStartDate('');
+      setEndDate('');
+      setDescription('');
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create trip: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const areDatesValid = !startDate || !endDate || startDate <= endDate;
+
+  const handleCreate = () => {
+    createMutation.mutate({
+      name: name.trim(),
+      description: description.trim() || null,
+      startDate: startDate || null,
+      endDate: endDate || null,
+    });
+  };
+
+  if (!user) {
+    return <div className="flex justify-center items-center min-h-screen">Redirecting...</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <Header />
+
+      <main className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="mb-8">
+            <h2 className="text-2xl font-bold text-gray-900">Trips</h2>
+            <p className="text-gray-600 mt-1">Group your entries into the journeys they were part of.</p>
+          </div>
+
+          {isLoading && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="bg-white rounded-lg shadow-md overflow-hidden">
+                  <Skeleton className="w-full h-40" />
+                  <div className="p-4 space-y-3">
+                    <Skeleton className="h-4 w-2/3" />
+                    <Skeleton className="h-4 w-1/2" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 text-red-500 p-4 rounded-md mb-8">
+              <p>Error loading trips. Please try again later.</p>
+            </div>
+          )}
+
+          {!isLoading && trips && trips.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+              {trips.map((trip) => (
+                <Link key={trip.id} href={`/trips/${trip.id}`}>
+                  <div className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow duration-300 cursor-pointer">
+                    <div className="w-full h-40 bg-gray-100 flex items-center justify-center">
+                      {trip.cover ? (
+                        <EntryImage
+                          entry={trip.cover}
+                          sizes="(min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw"
+                          alt={trip.name}
+                          className="w-full h-full object-cover"
+                        />
+                      ) : (
+                        <Luggage className="h-12 w-12 text-gray-400" />
+                      )}
+                    </div>
+                    <div className="p-4">
+                      <p className="font-medium text-gray-900 truncate">{trip.name}</p>
+                      <p className="text-sm text-gray-500">
+                        {[formatTripDates(trip), `${trip.entryCount} ${trip.entryCount === 1 ? 'entry' : 'entries'}`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          )}
+
+          <div className="bg-white rounded-lg shadow-md p-6 max-w-2xl">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">New Trip</h3>
+            <div className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="trip-name">Name</Label>
+                <Input
+                  id="trip-name"
+                  placeholder="e.g. Spring in Kyoto"
+                  maxLength={100}
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="trip-start">Start date (optional)</Label>
+                  <Input
+                    id="trip-start"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="trip-end">End date (optional)</Label>
+                  <Input
+                    id="trip-end"
+                    type="date"
+                    min={startDate || undefined}
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              {!areDatesValid && (
+                <p className="text-sm text-red-500">The trip cannot end before it starts.</p>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="trip-description">Description (optional)</Label>
+                <Textarea
+                  id="trip-description"
+                  className="resize-none"
+                  rows={3}
+                  maxLength={2000}
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleCreate}
+                disabled={createMutation.isPending || !name.trim() || !areDatesValid}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                {createMutation.isPending ? 'Creating trip...' : 'Create trip'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useRef } from 'react';
-import { useLocation } from 'wouter';
+import { useLocation, useSearch } from 'wouter';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -7,6 +7,10 @@ import { Header } from '@/components/layout/Header';
 import { useAuth } from '@/context/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { 
   Form,
   FormControl,
@@ -17,23 +21,39 @@ import {
   FormMessage 
 } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import { X, Camera, MapPin } from 'lucide-react';
 import { useMutation } from '@tanstack/react-query';
 import { queryClient } from '@/lib/queryClient';
 import { apiRequest } from '@/lib/queryClient';
-import { uploadImage } from '@/lib/supabase';
-import { insertEntrySchema } from '@shared/schema';
+import { parseCapturedAt, UploadRejectedError, uploadMedia } from '@/lib/media';
+import { PhotoPicker } from '@/components/entry/PhotoPicker';
+import { LocationField, type Coordinates } from '@/components/entry/LocationField';
+import { TripSelect } from '@/components/entry/TripSelect';
+import { Camera, ChevronLeft, ChevronRight, Clock, Star, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { maxEntryPhotos, type EntryPlace, type UploadedMedia } from '@shared/schema';
 
 // Create a form validation schema
 const uploadFormSchema = z.object({
   userId: z.string(),
   captionText: z.string().min(3, { message: 'Caption must be at least 3 characters long' }),
-  imageUrl: z.string().optional(),
+  mediaId: z.string().optional(),
+  photos: z.array(z.object({
+    mediaId: z.string(),
+    caption: z.string().nullable()
+  })).optional(),
   caption: z.string().optional(),
+  capturedAt: z.string().nullable().optional(),
+  tripId: z.number().nullable().optional(),
   location: z.object({
     lat: z.number(),
     lng: z.number()
   }).nullable().optional(),
+  place: z.object({
+    city: z.string(),
+    region: z.string().nullable(),
+    country: z.string(),
+    countryCode: z.string()
+  }).nullable().optional(),
   screenInfo: z.object({
     width: z.number(),
     height: z.number(),
@@ -43,19 +63,46 @@ const uploadFormSchema = z.object({
 
 type UploadFormValues = z.infer<typeof uploadFormSchema>;
 
+type LocationSource = 'photo' | 'device';
+
+// A photo picked for the new entry
+interface DraftPhoto {
+  key: string;
+  file: File;
+  previewUrl: string;
+  caption: string;
+  // Fraction uploaded so far, or null when not uploading
+  progress: number | null;
+  media: UploadedMedia | null;
+}
+
 export default function Upload() {
   const { user } = useAuth();
   const [, navigate] = useLocation();
+  const search = useSearch();
   const { toast } = useToast();
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [file, setFile] = useState<File | null>(null);
-  const [location, setLocation] = useState<{ lat: number; lng: number } | null>(null);
-  const [isGettingLocation, setIsGettingLocation] = useState(false);
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [showCamera, setShowCamera] = useState(false);
-  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [photos, setPhotos] = useState<DraftPhoto[]>([]);
+  const [coverKey, setCoverKey] = useState<string | null>(null);
+  const [location, setLocation] = useState<Coordinates | null>(null);
+  // Set when the location was picked by name rather than located
+  const [place, setPlace] = useState<EntryPlace | null>(null);
+  // Adding an entry from a trip's page files it under that trip
+  const [tripId, setTripId] = useState<number | null>(() => Number(new URLSearchParams(search).get('trip')) || null);
+  // Photos start uploading as soon as they are picked so the cover's EXIF
+  // data can fill in the form; saving waits for each photo's current upload
+  const uploadsRef = useRef(new Map<string, Promise<UploadedMedia>>());
+  const photoCountRef = useRef(0);
+  const nextPhotoKeyRef = useRef(0);
+  const [locationSource, setLocationSource] = useState<LocationSource>('photo');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cover = photos.find((photo) => photo.key === coverKey) ?? photos[0];
+  const photoExif = cover?.media?.exif ?? null;
+  const photoLocation = photoExif?.location
+    ? { lat: photoExif.location.lat, lng: photoExif.location.lng }
+    : null;
+  const isPhotoLocation = locationSource === 'photo' && !!photoLocation;
+  const entryLocation = isPhotoLocation ? photoLocation : location;
 
   const screenInfo = {
     width: window.innerWidth,
@@ -69,7 +116,7 @@ export default function Upload() {
     defaultValues: {
       captionText: '',
       userId: user?.id || '',
-      imageUrl: '',
+      mediaId: '',
       location: null,
       screenInfo
     },
@@ -82,15 +129,6 @@ export default function Upload() {
     }
   }, [user, navigate]);
 
-  // Clean up camera stream on unmount
-  useEffect(() => {
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-    };
-  }, [stream]);
-
   // Mutation for creating entry
   const createEntryMutation = useMutation({
     mutationFn: async (data: UploadFormValues) => {
@@ -99,6 +137,7 @@ export default function Upload() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
       toast({
         title: 'Success!',
         description: 'Your diary entry has been created.',
@@ -114,127 +153,107 @@ export default function Upload() {
     }
   });
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      setFile(selectedFile);
-      const objectUrl = URL.createObjectURL(selectedFile);
-      setPreviewUrl(objectUrl);
-      setShowCamera(false);
-    }
-  };
-
-  const removeImage = () => {
-    setPreviewUrl(null);
-    setFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  const updatePhoto = (key: string, changes: Partial<DraftPhoto>) => {
+    setPhotos((current) => current.map((photo) => photo.key === key ? { ...photo, ...changes } : photo));
   };
 
-  const getLocation = () => {
-    setIsGettingLocation(true);
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          const newLocation = {
-            lat: position.coords.latitude,
-            lng: position.coords.longitude,
-          };
-          setLocation(newLocation);
-          form.setValue('location', newLocation);
-          setIsGettingLocation(false);
-        },
-        (error) => {
-          console.error('Error getting location:', error);
-          toast({
-            title: 'Location Error',
-            description: 'Unable to get your current location.',
-            variant: 'destructive',
-          });
-          setIsGettingLocation(false);
+  // Upload a photo (resuming any earlier attempt) and keep its result, which
+  // pre-fills the form if it is the cover. Results for a photo that has since
+  // been removed are ignored.
+  const startUpload = (key: string, file: File) => {
+    const upload = uploadMedia(file, {
+      onProgress: (progress) => {
+        if (uploadsRef.current.get(key) === upload) {
+          updatePhoto(key, { progress });
         }
-      );
-    } else {
-      toast({
-        title: 'Location Not Supported',
-        description: 'Geolocation is not supported by your browser.',
-        variant: 'destructive',
-      });
-      setIsGettingLocation(false);
-    }
-  };
+      },
+    });
+    uploadsRef.current.set(key, upload);
+    updatePhoto(key, { progress: 0 });
 
-  const openCamera = async () => {
-    try {
-      if (navigator.mediaDevices && navigator.mediaDevices.getUserMedia) {
-        const mediaStream = await navigator.mediaDevices.getUserMedia({ video: true });
-        setStream(mediaStream);
-        setShowCamera(true);
-        
-        if (videoRef.current) {
-          videoRef.current.srcObject = mediaStream;
+    upload.then(
+      (media) => {
+        if (uploadsRef.current.get(key) === upload) {
+          updatePhoto(key, { progress: null, media });
         }
-      } else {
+      },
+      (error) => {
+        if (uploadsRef.current.get(key) !== upload) {
+          return;
+        }
+        // Saving starts a fresh attempt, which resumes where this one stopped
+        uploadsRef.current.delete(key);
+        updatePhoto(key, { progress: null });
+        console.error('Error uploading image:', error);
         toast({
-          title: 'Camera Error',
-          description: 'Camera access is not supported by your browser.',
+          title: 'Upload Error',
+          description: error instanceof UploadRejectedError
+            ? `${file.name}: ${error.message}`
+            : 'Failed to upload a photo. Save the entry to resume where it stopped.',
           variant: 'destructive',
         });
-      }
-    } catch (error) {
-      console.error('Error accessing camera:', error);
+      },
+    );
+    return upload;
+  };
+
+  const handleFileSelected = (selectedFile: File) => {
+    // Several files can be picked at once, so count them as they arrive
+    if (photoCountRef.current >= maxEntryPhotos) {
       toast({
-        title: 'Camera Error',
-        description: 'Unable to access your camera.',
+        title: 'Too Many Photos',
+        description: `An entry can have at most ${maxEntryPhotos} photos.`,
         variant: 'destructive',
       });
+      return;
     }
+    photoCountRef.current++;
+
+    const key = String(nextPhotoKeyRef.current++);
+    setPhotos((current) => [...current, {
+      key,
+      file: selectedFile,
+      previewUrl: URL.createObjectURL(selectedFile),
+      caption: '',
+      progress: 0,
+      media: null,
+    }]);
+    startUpload(key, selectedFile);
   };
 
-  const capturePhoto = () => {
-    if (videoRef.current && canvasRef.current) {
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const context = canvas.getContext('2d');
-      
-      // Set canvas dimensions to match video
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
-      
-      // Draw video frame to canvas
-      context?.drawImage(video, 0, 0, canvas.width, canvas.height);
-      
-      // Convert canvas to blob
-      canvas.toBlob((blob) => {
-        if (blob) {
-          const file = new File([blob], 'camera-capture.jpg', { type: 'image/jpeg' });
-          setFile(file);
-          const objectUrl = URL.createObjectURL(blob);
-          setPreviewUrl(objectUrl);
-          setShowCamera(false);
-          
-          // Stop the camera stream
-          if (stream) {
-            stream.getTracks().forEach(track => track.stop());
-            setStream(null);
-          }
-        }
-      }, 'image/jpeg', 0.8);
-    }
+  const removePhoto = (photo: DraftPhoto) => {
+    photoCountRef.current--;
+    uploadsRef.current.delete(photo.key);
+    URL.revokeObjectURL(photo.previewUrl);
+    setPhotos((current) => current.filter((other) => other.key !== photo.key));
   };
 
-  const closeCamera = () => {
-    if (stream) {
-      stream.getTracks().forEach(track => track.stop());
-      setStream(null);
-    }
-    setShowCamera(false);
+  // Move a photo one place earlier (-1) or later (1) in the gallery
+  const movePhoto = (index: number, offset: number) => {
+    setPhotos((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) {
+        return current;
+      }
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  const handleLocationChange = (newLocation: Coordinates | null, newPlace: EntryPlace | null) => {
+    setLocation(newLocation);
+    setPlace(newPlace);
+    form.setValue('location', newLocation);
+  };
+
+  const handleLocationSourceChange = (source: string) => {
+    setLocationSource(source as LocationSource);
   };
 
   const onSubmit = async (data: UploadFormValues) => {
     try {
-      if (!file) {
+      if (photos.length === 0) {
         toast({
           title: 'Missing Image',
           description: 'Please upload an image or take a photo.',
@@ -252,49 +271,40 @@ export default function Upload() {
         return;
       }
   
-      // Show loading toast
-      toast({
-        title: 'Uploading...',
-        description: 'Your image is being uploaded, please wait.',
-      });
-  
-      console.log('Uploading image for user:', user.id);
-      console.log('File details:', {
-        name: file.name,
-        type: file.type,
-        size: file.size,
-      });
-  
-      // Upload image to Supabase Storage
-      const imageUrl = await uploadImage(file, user.id);
-      console.log('Image upload result:', imageUrl);
-      
-      if (!imageUrl) {
-        toast({
-          title: 'Upload Error',
-          description: 'Failed to upload image. Please try again.',
-          variant: 'destructive',
-        });
+      // Wait for every photo to finish uploading, retrying any that failed
+      let uploaded: UploadedMedia[];
+      setIsSaving(true);
+      try {
+        uploaded = await Promise.all(
+          photos.map((photo) => uploadsRef.current.get(photo.key) ?? startUpload(photo.key, photo.file)),
+        );
+      } catch {
+        // startUpload has already reported the failure
         return;
+      } finally {
+        setIsSaving(false);
       }
   
-      // For development testing, if we get a placeholder URL, show a warning
-      if (imageUrl.includes('example.com/placeholder')) {
-        console.log('Using placeholder URL due to Supabase storage issues');
-        toast({
-          title: 'Using Test Image',
-          description: 'Supabase storage not accessible, proceeding with test image.',
-        });
-      }
+      const coverMedia = uploaded[photos.indexOf(cover)];
+  
+      // The same picture picked twice uploads to the same media ID
+      const entryPhotos = photos
+        .map((photo, index) => ({ mediaId: uploaded[index].id, caption: photo.caption.trim() || null }))
+        .filter((photo, index, all) => all.findIndex((other) => other.mediaId === photo.mediaId) === index);
   
       // Prepare entry data with all required fields
       const entryData: UploadFormValues = {
         ...data,
         userId: user.id,
-        imageUrl,
+        mediaId: coverMedia.id,
+        photos: entryPhotos,
         caption: data.captionText || '',  // Set caption for API consistency
         captionText: data.captionText || '',
-        location: location,
+        capturedAt: coverMedia.exif?.capturedAt ?? null,
+        location: entryLocation,
+        // Only a place picked by name is sent; the server names any other location
+        place: isPhotoLocation ? undefined : place ?? undefined,
+        tripId,
         screenInfo
       };
   
@@ -340,89 +350,100 @@ export default function Upload() {
             <form onSubmit={form.handleSubmit(onSubmit)} className="bg-white rounded-lg shadow-md p-6">
               {/* Photo Upload */}
               <div className="mb-6">
-                <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Photo</FormLabel>
+                <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Photos</FormLabel>
                 
-                {/* Camera Capture UI */}
-                {showCamera && (
-                  <div className="relative mb-4 rounded-lg overflow-hidden">
-                    <video 
-                      ref={videoRef} 
-                      autoPlay 
-                      playsInline 
-                      className="w-full h-64 object-cover rounded-lg"
-                    />
-                    <canvas ref={canvasRef} className="hidden" />
-                    <div className="absolute bottom-4 inset-x-0 flex justify-center space-x-4">
-                      <Button 
-                        type="button" 
-                        onClick={capturePhoto} 
-                        variant="secondary"
-                        className="rounded-full w-12 h-12 flex items-center justify-center p-0 bg-white"
-                      >
-                        <Camera className="h-6 w-6" />
-                      </Button>
-                      <Button 
-                        type="button" 
-                        onClick={closeCamera} 
-                        variant="destructive"
-                        className="rounded-full w-12 h-12 flex items-center justify-center p-0"
-                      >
-                        <X className="h-6 w-6" />
-                      </Button>
-                    </div>
+                {photos.length > 0 && (
+                  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-3">
+                    {photos.map((photo, index) => (
+                      <div key={photo.key} className="space-y-1">
+                        <div className="relative">
+                          <img
+                            src={photo.previewUrl}
+                            alt={`Photo ${index + 1}`}
+                            className={`w-full h-32 object-cover rounded-lg ${photo === cover ? 'ring-2 ring-primary' : ''}`}
+                          />
+                          <Button
+                            type="button"
+                            variant="destructive"
+                            size="icon"
+                            onClick={() => removePhoto(photo)}
+                            disabled={isSaving}
+                            className="absolute top-1 right-1 rounded-full w-6 h-6 p-1"
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                          <div className="absolute bottom-1 inset-x-1 flex items-center justify-between">
+                            <Button
+                              type="button"
+                              variant="secondary"
+                              size="icon"
+                              className="w-6 h-6 p-1 bg-white/90"
+                              onClick={() => movePhoto(index, -1)}
+                              disabled={isSaving || index === 0}
+                            >
+                              <ChevronLeft className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="secondary"
+                              size="sm"
+                              className="h-6 px-2 text-xs bg-white/90"
+                              onClick={() => setCoverKey(photo.key)}
+                              disabled={isSaving}
+                            >
+                              <Star className={`h-3 w-3 mr-1 ${photo === cover ? 'fill-current text-amber-500' : ''}`} />
+                              {photo === cover ? 'Cover' : 'Make cover'}
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="secondary"
+                              size="icon"
+                              className="w-6 h-6 p-1 bg-white/90"
+                              onClick={() => movePhoto(index, 1)}
+                              disabled={isSaving || index === photos.length - 1}
+                            >
+                              <ChevronRight className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {photo.progress !== null && (
+                          <Progress value={photo.progress * 100} className="h-1" />
+                        )}
+                        <Input
+                          placeholder="Photo caption (optional)"
+                          className="h-8 text-xs"
+                          maxLength={200}
+                          value={photo.caption}
+                          onChange={(e) => updatePhoto(photo.key, { caption: e.target.value })}
+                        />
+                      </div>
+                    ))}
                   </div>
                 )}
                 
-                {!showCamera && !previewUrl && (
-                  <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center">
-                    <input 
-                      type="file" 
-                      ref={fileInputRef}
-                      id="photo-upload" 
-                      accept="image/*" 
-                      className="hidden" 
-                      onChange={handleImageSelect}
-                    />
-                    <div className="space-y-2">
-                      <svg xmlns="http://www.w3.org/2000/svg" className="mx-auto h-12 w-12 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0l-4 4m4-4v12" />
-                      </svg>
-                      <div className="flex text-sm text-gray-600 justify-center">
-                        <label htmlFor="photo-upload" className="relative cursor-pointer bg-white rounded-md font-medium text-primary hover:text-primary/90 focus-within:outline-none">
-                          <span>Upload a file</span>
-                        </label>
-                        <p className="pl-1">or drag and drop</p>
-                      </div>
-                      <p className="text-xs text-gray-500">PNG, JPG, GIF up to 10MB</p>
-                    </div>
-                    <Button 
-                      type="button" 
-                      variant="link" 
-                      onClick={openCamera} 
-                      className="mt-4 flex items-center justify-center text-sm font-medium text-primary hover:text-primary/90 mx-auto"
-                    >
-                      <Camera className="h-5 w-5 mr-1" />
-                      Take a photo instead
-                    </Button>
-                  </div>
+                {photos.length < maxEntryPhotos && (
+                  <PhotoPicker
+                    previewUrl={null}
+                    onFileSelected={handleFileSelected}
+                    onRemove={() => {}}
+                    multiple
+                  />
                 )}
                 
-                {previewUrl && (
-                  <div className="mt-2 relative">
-                    <img 
-                      src={previewUrl} 
-                      alt="Preview" 
-                      className="w-full h-64 object-cover rounded-lg" 
-                    />
-                    <Button
-                      type="button"
-                      variant="destructive"
-                      size="icon"
-                      onClick={removeImage}
-                      className="absolute top-2 right-2 rounded-full w-8 h-8 p-1"
-                    >
-                      <X className="h-5 w-5" />
-                    </Button>
+                {photoExif && (photoExif.capturedAt || photoExif.cameraModel) && (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {photoExif.capturedAt && (
+                      <div className="bg-amber-50 text-amber-700 px-2 py-1 rounded text-xs flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        <span>Taken {format(parseCapturedAt(photoExif.capturedAt), 'MMM d, yyyy HH:mm')}</span>
+                      </div>
+                    )}
+                    {photoExif.cameraModel && (
+                      <div className="bg-blue-50 text-blue-700 px-2 py-1 rounded text-xs flex items-center">
+                        <Camera className="h-3 w-3 mr-1" />
+                        <span>{photoExif.cameraModel}</span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -450,40 +471,35 @@ export default function Upload() {
               {/* Location */}
               <div className="mb-6">
                 <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Location</FormLabel>
-                {!location ? (
-                  <Button
-                    type="button"
-                    variant="outline"
-                    className="flex items-center justify-center w-full border-gray-300"
-                    onClick={getLocation}
-                    disabled={isGettingLocation}
+                {photoLocation && (
+                  <RadioGroup
+                    value={locationSource}
+                    onValueChange={handleLocationSourceChange}
+                    className="flex gap-4 mb-3"
                   >
-                    {isGettingLocation ? (
-                      <span className="flex items-center">
-                        <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-primary" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                          <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                          <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                        </svg>
-                        Getting location...
-                      </span>
-                    ) : (
-                      <>
-                        <MapPin className="h-5 w-5 mr-1" />
-                        Get Current Location
-                      </>
-                    )}
-                  </Button>
-                ) : (
-                  <div className="bg-gray-50 p-3 rounded-md flex items-start">
-                    <MapPin className="h-5 w-5 text-gray-500 mr-2 mt-0.5" />
-                    <div>
-                      <p className="text-sm font-medium text-gray-700">Current Location</p>
-                      <p className="text-xs text-gray-500">Lat: {location.lat.toFixed(6)}, Long: {location.lng.toFixed(6)}</p>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="photo" id="location-photo" />
+                      <Label htmlFor="location-photo">Where the photo was taken</Label>
                     </div>
-                  </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="device" id="location-device" />
+                      <Label htmlFor="location-device">Somewhere else</Label>
+                    </div>
+                  </RadioGroup>
+                )}
+                {locationSource === 'photo' && photoLocation ? (
+                  <LocationField location={photoLocation} onChange={() => setLocationSource('device')} label="Photo Location" />
+                ) : (
+                  <LocationField location={location} place={place} onChange={handleLocationChange} />
                 )}
               </div>
               
+              {/* Trip */}
+              <div className="mb-6">
+                <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Trip</FormLabel>
+                <TripSelect tripId={tripId} onChange={setTripId} />
+              </div>
+              
               {/* Device Information */}
               <div className="mb-6">
                 <FormLabel className="block text-sm font-medium text-gray-700 mb-2">Device Information</FormLabel>
@@ -524,9 +540,9 @@ export default function Upload() {
                 <Button 
                   type="submit" 
                   className="bg-primary hover:bg-primary/90"
-                  disabled={createEntryMutation.isPending}
+                  disabled={isSaving || createEntryMutation.isPending}
                 >
-                  {createEntryMutation.isPending ? (
+                  {isSaving || createEntryMutation.isPending ? (
                     <span className="flex items-center">
                       <svg className="animate-spin -ml-1 mr-2 h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                         <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -1,15 +1,20 @@
 import { useState, useEffect } from 'react';
-import { useLocation, useRoute } from 'wouter';
+import { Link, useLocation, useRoute } from 'wouter';
 import { Header } from '@/components/layout/Header';
 import { useAuth } from '@/context/AuthContext';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { DiaryEntry } from '@shared/schema';
+import { Badge } from '@/components/ui/badge';
+import { DiaryEntry, TripSummary } from '@shared/schema';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { MapPin, Calendar, Clock, Camera } from 'lucide-react';
-import { format } from 'date-fns';
+import { ToastAction } from '@/components/ui/toast';
+import { EntryDetails } from '@/components/entry/EntryDetails';
+import { SharePanel } from '@/components/entry/SharePanel';
+import { EntryEditForm } from '@/components/entry/EntryEditForm';
+import { HistoryDrawer } from '@/components/entry/HistoryDrawer';
+import { History, Luggage, Pencil, ShieldCheck } from 'lucide-react';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -26,6 +31,8 @@ export default function ViewEntry() {
   const [, navigate] = useLocation();
   const [match, params] = useRoute('/entry/:id');
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const { toast } = useToast();
   
   const entryId = match ? parseInt(params.id) : null;
@@ -42,16 +49,49 @@ export default function ViewEntry() {
     enabled: !!user && !!entryId,
   });
 
+  const { data: trips } = useQuery<TripSummary[]>({
+    queryKey: ['/api/trips'],
+    enabled: !!user && !!entry?.tripId,
+  });
+  const trip = trips?.find((t) => t.id === entry?.tripId);
+
+  const undoDelete = async () => {
+    try {
+      await apiRequest('POST', `/api/trash/${entryId}/restore`, undefined);
+      queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
+      toast({
+        title: 'Entry Restored',
+        description: 'Your diary entry is back.',
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: `Failed to restore entry: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const deleteMutation = useMutation({
     mutationFn: async () => {
-      return await apiRequest('DELETE', `/api/entries/${entryId}`, undefined);
+      const res = await apiRequest('DELETE', `/api/entries/${entryId}`, undefined);
+      return await res.json() as { retentionDays: number };
     },
-    onSuccess: () => {
+    onSuccess: ({ retentionDays }) => {
       toast({
-        title: 'Entry Deleted',
-        description: 'Your diary entry has been deleted successfully.',
+        title: 'Moved to Trash',
+        description: `The entry will be permanently deleted after ${retentionDays} days.`,
+        action: (
+          <ToastAction altText="Undo delete" onClick={undoDelete}>
+            Undo
+          </ToastAction>
+        ),
       });
       queryClient.invalidateQueries({ queryKey: ['/api/entries'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trash'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/trips'] });
       navigate('/dashboard');
     },
     onError: (error) => {
@@ -98,16 +138,36 @@ export default function ViewEntry() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10 19l-7-7m0 0l7-7m-7 7h18" />
                 </svg>
               </Button>
-              <h1 className="text-xl font-semibold text-gray-900">View Entry</h1>
+              <h1 className="text-xl font-semibold text-gray-900">{isEditing ? 'Edit Entry' : 'View Entry'}</h1>
             </div>
-            <Button 
-              variant="ghost" 
-              className="text-red-500 hover:text-red-600 hover:bg-red-50"
-              onClick={handleDelete}
-              disabled={deleteMutation.isPending}
-            >
-              {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
-            </Button>
+            {!isEditing && (
+              <div className="flex items-center">
+                <Button 
+                  variant="ghost" 
+                  onClick={() => setIsEditing(true)}
+                  disabled={!entry}
+                >
+                  <Pencil className="h-4 w-4 mr-1" />
+                  Edit
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  onClick={() => setIsHistoryOpen(true)}
+                  disabled={!entry}
+                >
+                  <History className="h-4 w-4 mr-1" />
+                  History
+                </Button>
+                <Button 
+                  variant="ghost" 
+                  className="text-red-500 hover:text-red-600 hover:bg-red-50"
+                  onClick={handleDelete}
+                  disabled={deleteMutation.isPending}
+                >
+                  {deleteMutation.isPending ? 'Deleting...' : 'Delete'}
+                </Button>
+              </div>
+            )}
           </div>
 
           {isLoading && (
@@ -127,95 +187,53 @@ export default function ViewEntry() {
             </div>
           )}
 
-          {!isLoading && entry && (
-            <div className="bg-white rounded-lg shadow-md overflow-hidden">
-              <div className="relative">
-                <img 
-                  src={entry.imageUrl} 
-                  alt={entry.caption}
-                  className="w-full h-auto" 
-                />
-                <div className="absolute top-4 right-4 bg-black bg-opacity-50 text-white text-sm px-2 py-1 rounded">
-                  {format(new Date(entry.createdAt), 'MMMM d, yyyy')}
+          {!isLoading && entry && isEditing && (
+            <EntryEditForm entry={entry} onDone={() => setIsEditing(false)} />
+          )}
+
+          {!isLoading && entry && !isEditing && (
+            <>
+              {entry.privacyZone && (
+                <div className="bg-white rounded-lg shadow-md p-4 mb-6 flex items-start gap-3">
+                  <Badge className="bg-green-100 text-green-700 hover:bg-green-100 flex-shrink-0">
+                    <ShieldCheck className="h-3 w-3 mr-1" />
+                    {entry.privacyZone.label}
+                  </Badge>
+                  <p className="text-sm text-gray-600">
+                    This entry was made inside your "{entry.privacyZone.label}" privacy zone, so its
+                    location is hidden on every share link. Manage zones in{' '}
+                    <Link href="/settings" className="text-primary hover:underline">Settings</Link>.
+                  </p>
                 </div>
-              </div>
-              
-              <div className="p-6">
-                <h2 className="text-2xl font-bold text-gray-900 mb-4">{entry.caption}</h2>
-                
-                <div className="border-t border-gray-200 pt-6 space-y-4">
-                  {entry.location && (
-                    <div>
-                      <h3 className="text-sm font-medium text-gray-500 mb-1">Location</h3>
-                      <div className="flex items-start">
-                        <MapPin className="h-5 w-5 text-gray-400 mr-2" />
-                        <div>
-                          <p className="text-gray-900 font-medium">Current Location</p>
-                          <p className="text-sm text-gray-500">
-                            Lat: {entry.location.lat.toFixed(6)}, Long: {entry.location.lng.toFixed(6)}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                  )}
-                  
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-500 mb-1">Device Information</h3>
-                    <div className="bg-gray-50 rounded-md p-3">
-                      <div className="grid grid-cols-2 gap-3">
-                        <div>
-                          <p className="text-xs text-gray-500">Screen Width</p>
-                          <p className="text-gray-900 font-medium">{entry.screenInfo.width}px</p>
-                        </div>
-                        <div>
-                          <p className="text-xs text-gray-500">Screen Height</p>
-                          <p className="text-gray-900 font-medium">{entry.screenInfo.height}px</p>
-                        </div>
-                        <div>
-                          <p className="text-xs text-gray-500">Orientation</p>
-                          <p className="text-gray-900 font-medium">{entry.screenInfo.orientation}</p>
-                        </div>
-                        <div>
-                          <p className="text-xs text-gray-500">Created At</p>
-                          <p className="text-gray-900 font-medium">
-                            {format(new Date(entry.createdAt), 'HH:mm:ss')}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div>
-                    <h3 className="text-sm font-medium text-gray-500 mb-1">Metadata</h3>
-                    <div className="flex flex-wrap gap-2">
-                      <div className="bg-blue-50 text-blue-700 px-2 py-1 rounded text-xs flex items-center">
-                        <Calendar className="h-3 w-3 mr-1" />
-                        <span>{format(new Date(entry.createdAt), 'MMMM d, yyyy')}</span>
-                      </div>
-                      <div className="bg-amber-50 text-amber-700 px-2 py-1 rounded text-xs flex items-center">
-                        <Clock className="h-3 w-3 mr-1" />
-                        <span>{format(new Date(entry.createdAt), 'HH:mm')}</span>
-                      </div>
-                      <div className="bg-green-50 text-green-700 px-2 py-1 rounded text-xs flex items-center">
-                        <Camera className="h-3 w-3 mr-1" />
-                        <span>Image from {new URL(entry.imageUrl).pathname.split('.').pop()?.toUpperCase()}</span>
-                      </div>
-                    </div>
-                  </div>
+              )}
+              {trip && (
+                <div className="mb-4">
+                  <Link href={`/trips/${trip.id}`}>
+                    <Badge variant="outline" className="cursor-pointer hover:bg-gray-100">
+                      <Luggage className="h-3 w-3 mr-1" />
+                      {trip.name}
+                    </Badge>
+                  </Link>
                 </div>
-              </div>
-            </div>
+              )}
+              <SharePanel entry={entry} />
+              <EntryDetails entry={entry} />
+            </>
           )}
         </div>
       </main>
 
+      {entry && (
+        <HistoryDrawer entry={entry} open={isHistoryOpen} onOpenChange={setIsHistoryOpen} />
+      )}
+
       <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you sure you want to delete this entry?</AlertDialogTitle>
+            <AlertDialogTitle>Move this entry to the trash?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete your
-              diary entry and remove the data from our servers.
+              You can restore it from the Trash until it is permanently
+              deleted at the end of the retention period.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -0,0 +1,3 @@
+DROP TABLE "diary_entries";
+--> statement-breakpoint
+DROP TABLE "users";
@@ -0,0 +1,21 @@
+CREATE TABLE "diary_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"caption" text NOT NULL,
+	"image_url" text NOT NULL,
+	"location" jsonb,
+	"screen_info" jsonb NOT NULL,
+	"created_at" text NOT NULL,
+	"share_id" text,
+	"is_shared" boolean DEFAULT false NOT NULL,
+	CONSTRAINT "diary_entries_share_id_unique" UNIQUE("share_id")
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" text PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+ALTER TABLE "diary_entries" ADD COLUMN "share_id" text;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD COLUMN "is_shared" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_share_id_unique" UNIQUE("share_id");--> statement-breakpoint
+UPDATE "diary_entries" SET "share_id" = "links"."id", "is_shared" = true
+FROM (
+  SELECT DISTINCT ON ("entry_id") "entry_id", "id" FROM "share_links"
+  WHERE "revoked_at" IS NULL
+  ORDER BY "entry_id", "created_at" DESC
+) AS "links"
+WHERE "diary_entries"."id" = "links"."entry_id";--> statement-breakpoint
+DROP TABLE "share_links";
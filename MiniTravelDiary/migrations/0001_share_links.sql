@@ -0,0 +1,17 @@
+CREATE TABLE "share_links" (
+	"id" text PRIMARY KEY NOT NULL,
+	"entry_id" integer NOT NULL,
+	"label" text,
+	"passphrase_hash" text,
+	"expires_at" text,
+	"view_count" integer DEFAULT 0 NOT NULL,
+	"created_at" text NOT NULL,
+	"revoked_at" text
+);
+--> statement-breakpoint
+INSERT INTO "share_links" ("id", "entry_id", "created_at")
+SELECT "share_id", "id", "created_at" FROM "diary_entries" WHERE "share_id" IS NOT NULL AND "is_shared" = true;--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP CONSTRAINT "diary_entries_share_id_unique";--> statement-breakpoint
+ALTER TABLE "share_links" ADD CONSTRAINT "share_links_entry_id_diary_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."diary_entries"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP COLUMN "share_id";--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP COLUMN "is_shared";
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "diary_entries" DROP COLUMN "updated_at";
@@ -0,0 +1,9 @@
+CREATE TABLE "entry_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entry_id" integer NOT NULL,
+	"edited_by" text NOT NULL,
+	"changes" jsonb NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "entry_revisions" ADD CONSTRAINT "entry_revisions_entry_id_diary_entries_id_fk" FOREIGN KEY ("entry_id") REFERENCES "public"."diary_entries"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
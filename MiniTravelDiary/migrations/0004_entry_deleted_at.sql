@@ -0,0 +1 @@
+ALTER TABLE "diary_entries" ADD COLUMN "deleted_at" text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+UPDATE "diary_entries" SET "image_url" = '/api/media/' || "media_id" WHERE "image_url" IS NULL;--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP CONSTRAINT "diary_entries_media_id_media_id_fk";--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP COLUMN "media_id";--> statement-breakpoint
+ALTER TABLE "diary_entries" ALTER COLUMN "image_url" SET NOT NULL;--> statement-breakpoint
+DROP TABLE "media";
@@ -0,0 +1,11 @@
+CREATE TABLE "media" (
+	"id" text PRIMARY KEY NOT NULL,
+	"content_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"uploaded_by" text NOT NULL,
+	"created_at" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "diary_entries" ALTER COLUMN "image_url" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD COLUMN "media_id" text;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_media_id_media_id_fk" FOREIGN KEY ("media_id") REFERENCES "public"."media"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
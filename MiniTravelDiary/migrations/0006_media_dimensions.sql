@@ -0,0 +1,2 @@
+ALTER TABLE "media" ADD COLUMN "width" integer;--> statement-breakpoint
+ALTER TABLE "media" ADD COLUMN "height" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "share_links" DROP COLUMN "strip_exif";--> statement-breakpoint
+ALTER TABLE "share_links" DROP COLUMN "location_precision";
\ No newline at end of file
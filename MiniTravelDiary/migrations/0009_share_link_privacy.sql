@@ -0,0 +1,2 @@
+ALTER TABLE "share_links" ADD COLUMN "location_precision" text DEFAULT 'neighborhood' NOT NULL;--> statement-breakpoint
+ALTER TABLE "share_links" ADD COLUMN "strip_exif" boolean DEFAULT true NOT NULL;
\ No newline at end of file
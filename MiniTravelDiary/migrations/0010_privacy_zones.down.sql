@@ -0,0 +1 @@
+DROP TABLE "privacy_zones";
\ No newline at end of file
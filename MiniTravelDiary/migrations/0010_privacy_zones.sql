@@ -0,0 +1,9 @@
+CREATE TABLE "privacy_zones" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"label" text NOT NULL,
+	"lat" double precision NOT NULL,
+	"lng" double precision NOT NULL,
+	"radius_meters" integer NOT NULL,
+	"created_at" text NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "diary_entries" DROP COLUMN "photos";
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "diary_entries" ADD COLUMN "photos" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+UPDATE "diary_entries" SET "photos" = jsonb_build_array(jsonb_build_object('mediaId', "media_id", 'caption', null)) WHERE "media_id" IS NOT NULL;
\ No newline at end of file
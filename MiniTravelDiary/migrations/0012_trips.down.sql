@@ -0,0 +1,3 @@
+ALTER TABLE "diary_entries" DROP CONSTRAINT "diary_entries_trip_id_trips_id_fk";--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP COLUMN "trip_id";--> statement-breakpoint
+DROP TABLE "trips";
\ No newline at end of file
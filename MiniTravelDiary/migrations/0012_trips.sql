@@ -0,0 +1,15 @@
+CREATE TABLE "trips" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"start_date" text,
+	"end_date" text,
+	"cover_media_id" text,
+	"created_at" text NOT NULL,
+	"updated_at" text
+);
+--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD COLUMN "trip_id" integer;--> statement-breakpoint
+ALTER TABLE "trips" ADD CONSTRAINT "trips_cover_media_id_media_id_fk" FOREIGN KEY ("cover_media_id") REFERENCES "public"."media"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "diary_entries" ADD CONSTRAINT "diary_entries_trip_id_trips_id_fk" FOREIGN KEY ("trip_id") REFERENCES "public"."trips"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+DROP TABLE "journey_suggestions";
\ No newline at end of file
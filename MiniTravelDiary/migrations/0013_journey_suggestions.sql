@@ -0,0 +1,7 @@
+CREATE TABLE "journey_suggestions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"name" text NOT NULL,
+	"entry_ids" jsonb NOT NULL,
+	"created_at" text NOT NULL
+);
@@ -0,0 +1 @@
+ALTER TABLE "diary_entries" DROP COLUMN "place";
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "diary_entries" ADD COLUMN "place" jsonb;
\ No newline at end of file
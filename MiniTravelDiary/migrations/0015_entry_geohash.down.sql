@@ -0,0 +1,2 @@
+DROP INDEX "diary_entries_user_geohash_idx";--> statement-breakpoint
+ALTER TABLE "diary_entries" DROP COLUMN "geohash";
\ No newline at end of file
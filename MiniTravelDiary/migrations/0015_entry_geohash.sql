@@ -0,0 +1,57 @@
+ALTER TABLE "diary_entries" ADD COLUMN "geohash" text;--> statement-breakpoint
+CREATE INDEX "diary_entries_user_geohash_idx" ON "diary_entries" USING btree ("user_id","geohash" text_pattern_ops);--> statement-breakpoint
+-- Geohash the locations of existing entries, the same way server/geohash.ts does
+DO $$
+DECLARE
+  entry record;
+  base32 constant text := '0123456789bcdefghjkmnpqrstuvwxyz';
+  lat_range float8[];
+  lng_range float8[];
+  mid float8;
+  hash text;
+  bits int;
+  value int;
+  is_lng boolean;
+BEGIN
+  FOR entry IN
+    SELECT id, (location->>'lat')::float8 AS lat, (location->>'lng')::float8 AS lng
+    FROM diary_entries
+    WHERE jsonb_typeof(location) = 'object'
+  LOOP
+    lat_range := ARRAY[-90, 90];
+    lng_range := ARRAY[-180, 180];
+    hash := '';
+    bits := 0;
+    value := 0;
+    is_lng := true;
+    WHILE length(hash) < 9 LOOP
+      IF is_lng THEN
+        mid := (lng_range[1] + lng_range[2]) / 2;
+        IF entry.lng >= mid THEN
+          value := value * 2 + 1;
+          lng_range[1] := mid;
+        ELSE
+          value := value * 2;
+          lng_range[2] := mid;
+        END IF;
+      ELSE
+        mid := (lat_range[1] + lat_range[2]) / 2;
+        IF entry.lat >= mid THEN
+          value := value * 2 + 1;
+          lat_range[1] := mid;
+        ELSE
+          value := value * 2;
+          lat_range[2] := mid;
+        END IF;
+      END IF;
+      is_lng := NOT is_lng;
+      bits := bits + 1;
+      IF bits = 5 THEN
+        hash := hash || substr(base32, value + 1, 1);
+        bits := 0;
+        value := 0;
+      END IF;
+    END LOOP;
+    UPDATE diary_entries SET geohash = hash WHERE id = entry.id;
+  END LOOP;
+END $$;
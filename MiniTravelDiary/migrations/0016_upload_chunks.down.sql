@@ -0,0 +1 @@
+ALTER TABLE "uploads" DROP COLUMN "chunks";
\ No newline at end of file
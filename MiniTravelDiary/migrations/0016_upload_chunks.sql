@@ -0,0 +1,4 @@
+-- Chunks of uploads already in progress were kept on the local disk, which
+-- the new chunk list cannot point at, so those uploads start over
+DELETE FROM "uploads";--> statement-breakpoint
+ALTER TABLE "uploads" ADD COLUMN "chunks" jsonb DEFAULT '[]'::jsonb NOT NULL;
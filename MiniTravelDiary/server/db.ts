@@ -0,0 +1,34 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Connect to the database named by `url`.
+ *
+ * `pglite:` URLs start an embedded Postgres (in memory for `pglite:memory`,
+ * otherwise persisted to the given directory) so local development and tests
+ * can run against a real database without provisioning one. PGlite is a
+ * dev dependency, so it is only loaded for those URLs.
+ */
+export async function connectDatabase(url: string): Promise<Database> {
+  if (url.startsWith("pglite:")) {
+    const { PGlite } = await import("@electric-sql/pglite");
+    const { drizzle: drizzlePglite } = await import("drizzle-orm/pglite");
+    const dataDir = url.slice("pglite:".length);
+    const client = dataDir === "memory" ? new PGlite() : new PGlite(dataDir);
+    return drizzlePglite({ client, schema });
+  }
+
+  const pool = new Pool({ connectionString: url });
+  return drizzleNeon({ client: pool, schema });
+}
+
+export const db: Database | null = process.env.DATABASE_URL
+  ? await connectDatabase(process.env.DATABASE_URL)
+  : null;
@@ -0,0 +1,41 @@
+import type { DiaryEntry, EntryFieldUpdates, EntryPhoto } from "@shared/schema";
+
+/**
+ * Media IDs of every photo in `entry`, the cover included.
+ */
+export function photoMediaIds(entry: { mediaId?: string | null; photos?: EntryPhoto[] }) {
+  const ids = (entry.photos ?? []).map((photo) => photo.mediaId);
+  if (entry.mediaId) {
+    ids.push(entry.mediaId);
+  }
+  return Array.from(new Set(ids));
+}
+
+/**
+ * Work out the photo list and cover an update leaves `entry` with, keeping the
+ * cover among the photos:
+ *
+ * - a new photo list keeps the current cover if it is still in it, and
+ *   otherwise starts with the first photo;
+ * - a new cover that isn't one of the photos replaces the current cover in
+ *   the list, as replacing the image of a single-photo entry did before.
+ */
+export function applyPhotoUpdates(entry: DiaryEntry, updates: EntryFieldUpdates): EntryFieldUpdates {
+  if (updates.photos) {
+    const photos = updates.photos;
+    const cover = updates.mediaId ?? entry.mediaId;
+    const keepsCover = photos.some((photo) => photo.mediaId === cover);
+    return { ...updates, mediaId: keepsCover ? cover : photos[0].mediaId };
+  }
+
+  const cover = updates.mediaId;
+  if (!cover || entry.photos.some((photo) => photo.mediaId === cover)) {
+    return updates;
+  }
+
+  const replaced = entry.photos.findIndex((photo) => photo.mediaId === entry.mediaId);
+  const photos = replaced === -1
+    ? [...entry.photos, { mediaId: cover, caption: null }]
+    : entry.photos.map((photo, index) => index === replaced ? { mediaId: cover, caption: null } : photo);
+  return { ...updates, photos };
+}
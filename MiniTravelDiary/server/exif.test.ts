@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { readPhotoExif } from "./exif";
+
+type ExifTags = { IFD0?: Record<string, string>; IFD2?: Record<string, string>; IFD3?: Record<string, string> };
+
+function photo(tags: ExifTags, orientation?: number) {
+  const image = sharp({ create: { width: 4, height: 4, channels: 3, background: "#336699" } })
+    .jpeg()
+    .withExif(tags);
+  return (orientation ? image.withMetadata({ orientation }) : image).toBuffer();
+}
+
+// Lisbon, as a phone records it
+const lisbon = {
+  GPSLatitudeRef: "N",
+  GPSLatitude: "38/1 43/1 2028/100",
+  GPSLongitudeRef: "W",
+  GPSLongitude: "9/1 8/1 2148/100",
+};
+
+describe("readPhotoExif", () => {
+  it("reads capture time, position, camera and orientation", async () => {
+    const data = await photo({
+      IFD0: { Model: "Pixel 8" },
+      IFD2: { DateTimeOriginal: "2024:03:05 14:07:09", OffsetTimeOriginal: "+01:00" },
+      IFD3: { ...lisbon, GPSAltitude: "12/1" },
+    }, 6);
+
+    const exif = await readPhotoExif(data);
+
+    expect(exif).toMatchObject({
+      capturedAt: "2024-03-05T14:07:09+01:00",
+      cameraModel: "Pixel 8",
+      orientation: 6,
+    });
+    expect(exif?.location?.lat).toBeCloseTo(38.7223, 4);
+    expect(exif?.location?.lng).toBeCloseTo(-9.1393, 4);
+    expect(exif?.location?.altitude).toBe(12);
+  });
+
+  it("leaves a capture time without an offset as local time", async () => {
+    const exif = await readPhotoExif(await photo({ IFD2: { DateTimeOriginal: "2024:03:05 14:07:09" } }));
+
+    expect(exif?.capturedAt).toBe("2024-03-05T14:07:09");
+  });
+
+  it("ignores an empty capture time", async () => {
+    const exif = await readPhotoExif(await photo({
+      IFD0: { Model: "Pixel 8" },
+      IFD2: { DateTimeOriginal: "0000:00:00 00:00:00" },
+    }));
+
+    expect(exif).toMatchObject({ capturedAt: null, cameraModel: "Pixel 8" });
+  });
+
+  it("ignores a position of 0,0 written without a fix", async () => {
+    const exif = await readPhotoExif(await photo({
+      IFD0: { Model: "Pixel 8" },
+      IFD3: { GPSLatitudeRef: "N", GPSLatitude: "0/1 0/1 0/1", GPSLongitudeRef: "E", GPSLongitude: "0/1 0/1 0/1" },
+    }));
+
+    expect(exif?.location).toBeNull();
+  });
+
+  it("returns null for a photo without EXIF", async () => {
+    const data = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#336699" } }).jpeg().toBuffer();
+
+    expect(await readPhotoExif(data)).toBeNull();
+  });
+
+  it("returns null for data that isn't an image", async () => {
+    expect(await readPhotoExif(Buffer.from("not an image"))).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import exifr from "exifr";
+import type { PhotoExif } from "@shared/schema";
+
+// "2024:03:05 14:07:09", as cameras write EXIF dates
+function parseExifDateTime(value: unknown) {
+  const match = typeof value === "string" && /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) {
+    return undefined;
+  }
+
+  const [, year, month, day, hour, minute, second] = match;
+  if (year === "0000") {
+    return undefined;
+  }
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`;
+}
+
+/**
+ * When the photo was taken. DateTimeOriginal is wall-clock time where the
+ * photo was taken; it gets an offset from OffsetTimeOriginal when the camera
+ * recorded one, and is otherwise left without one rather than guessing.
+ */
+function readCapturedAt(tags: Record<string, unknown>) {
+  const local = parseExifDateTime(tags.DateTimeOriginal) ?? parseExifDateTime(tags.CreateDate);
+  if (!local) {
+    return null;
+  }
+
+  const offset = tags.OffsetTimeOriginal ?? tags.OffsetTime;
+  if (typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)) {
+    return `${local}${offset}`;
+  }
+  return local;
+}
+
+// GPS coordinates are stored as [degrees, minutes, seconds] plus a reference
+// of N/S or E/W
+function toDecimalDegrees(value: unknown, ref: unknown, negativeRef: string) {
+  if (!Array.isArray(value) || value.length !== 3 || !value.every((n) => Number.isFinite(n))) {
+    return undefined;
+  }
+
+  const [degrees, minutes, seconds] = value as number[];
+  const decimal = degrees + minutes / 60 + seconds / 3600;
+  return ref === negativeRef ? -decimal : decimal;
+}
+
+function readLocation(tags: Record<string, unknown>): PhotoExif["location"] {
+  const lat = toDecimalDegrees(tags.GPSLatitude, tags.GPSLatitudeRef, "S");
+  const lng = toDecimalDegrees(tags.GPSLongitude, tags.GPSLongitudeRef, "W");
+
+  // Many phones write 0,0 when they had no fix
+  if (lat === undefined || lng === undefined || Math.abs(lat) > 90 || Math.abs(lng) > 180 || (lat === 0 && lng === 0)) {
+    return null;
+  }
+
+  // GPSAltitudeRef 1 means below sea level
+  const altitude = typeof tags.GPSAltitude === "number"
+    ? (tags.GPSAltitudeRef === 1 ? -tags.GPSAltitude : tags.GPSAltitude)
+    : null;
+
+  return { lat, lng, altitude };
+}
+
+function readString(value: unknown) {
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Read capture time, GPS position, camera model and orientation from a
+ * photo's EXIF block. Returns null if the image has none of them.
+ */
+export async function readPhotoExif(data: Buffer): Promise<PhotoExif | null> {
+  let tags: Record<string, unknown> | undefined;
+  try {
+    tags = await exifr.parse(data, {
+      tiff: true,
+      exif: true,
+      gps: true,
+      ifd1: false,
+      interop: false,
+      xmp: false,
+      icc: false,
+      iptc: false,
+      jfif: false,
+      ihdr: false,
+      translateValues: false,
+      reviveValues: false,
+    });
+  } catch {
+    return null;
+  }
+
+  if (!tags) {
+    return null;
+  }
+
+  const exif: PhotoExif = {
+    capturedAt: readCapturedAt(tags),
+    location: readLocation(tags),
+    cameraModel: readString(tags.Model),
+    orientation: typeof tags.Orientation === "number" ? tags.Orientation : null,
+  };
+
+  return Object.values(exif).some((value) => value !== null) ? exif : null;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { reverseGeocode, searchPlaces, withPlace } from "./gazetteer";
+
+const lisbon = { lat: 38.72635, lng: -9.14843 };
+
+function fold(name: string) {
+  return name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+}
+
+describe("reverseGeocode", () => {
+  it("names the city at a location", () => {
+    expect(reverseGeocode(lisbon)).toMatchObject({ city: "Lisbon", country: "Portugal", countryCode: "PT" });
+  });
+
+  it("names the nearest city, with its region and country", () => {
+    expect(reverseGeocode({ lat: 48.8566, lng: 2.3522 })).toEqual({
+      city: "Paris",
+      region: "Île-de-France",
+      country: "France",
+      countryCode: "FR",
+    });
+  });
+
+  it("names nothing far from every city", () => {
+    expect(reverseGeocode({ lat: 30, lng: -40 })).toBeNull();
+  });
+});
+
+describe("searchPlaces", () => {
+  it("matches names ignoring case and accents", () => {
+    const [first] = searchPlaces("SAO PAULO");
+
+    expect(first).toMatchObject({ city: "São Paulo", country: "Brazil" });
+  });
+
+  it("lists exact matches before longer names", () => {
+    const results = searchPlaces("paris", 20);
+    const exact = results.filter((place) => fold(place.city) === "paris");
+
+    expect(exact.length).toBeGreaterThan(1);
+    expect(results.slice(0, exact.length)).toEqual(exact);
+    expect(results.every((place) => fold(place.city).startsWith("paris"))).toBe(true);
+  });
+
+  it("narrows the results by region or country after a comma", () => {
+    expect(searchPlaces("paris, texas")).toEqual([
+      expect.objectContaining({ city: "Paris", region: "Texas", countryCode: "US" }),
+    ]);
+    expect(searchPlaces("paris, fr").every((place) => place.countryCode === "FR")).toBe(true);
+  });
+
+  it("returns at most the limit, and nothing for an empty query", () => {
+    expect(searchPlaces("san", 5)).toHaveLength(5);
+    expect(searchPlaces("  ")).toEqual([]);
+  });
+});
+
+describe("withPlace", () => {
+  it("names the place for a new location sent without one", () => {
+    expect(withPlace({ location: lisbon })).toMatchObject({ place: { city: "Lisbon" } });
+    expect(withPlace({ location: lisbon, place: null })).toMatchObject({ place: { city: "Lisbon" } });
+  });
+
+  it("keeps a place that was picked", () => {
+    const place = { city: "Belém", region: "Lisbon", country: "Portugal", countryCode: "PT" };
+
+    expect(withPlace({ location: lisbon, place })).toEqual({ location: lisbon, place });
+  });
+
+  it("clears the place along with the location, and leaves other updates alone", () => {
+    expect(withPlace({ location: null })).toEqual({ location: null, place: null });
+    expect(withPlace({ caption: "Harbour at dusk" } as { location?: undefined })).toEqual({ caption: "Harbour at dusk" });
+  });
+});
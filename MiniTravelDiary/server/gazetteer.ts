@@ -0,0 +1,184 @@
+import { City, Country, State } from "country-state-city";
+import { distanceMeters } from "@shared/geo";
+import type { DiaryEntry, EntryPlace, PlaceSearchResult } from "@shared/schema";
+
+type Location = NonNullable<DiaryEntry["location"]>;
+
+interface GazetteerCity {
+  name: string;
+  lat: number;
+  lng: number;
+  countryCode: string;
+  stateCode: string;
+}
+
+// Locations further than this from every city in the gazetteer get no place
+const MAX_PLACE_DISTANCE_KM = 50;
+
+const KM_PER_DEGREE = 111;
+
+// Cities by the 1° cell they are in, built on first lookup
+let cityIndex: Map<string, GazetteerCity[]> | undefined;
+// Every city sorted by its folded name, for searching by name
+let cityNames: { folded: string; city: GazetteerCity }[] | undefined;
+let regionNames: Map<string, string> | undefined;
+let countryNames: Map<string, string> | undefined;
+
+function cellKey(latCell: number, lngCell: number) {
+  // Wrap around the antimeridian
+  return `${latCell},${((lngCell + 180) % 360 + 360) % 360 - 180}`;
+}
+
+function getCityIndex() {
+  if (!cityIndex) {
+    cityIndex = new Map();
+    for (const city of City.getAllCities()) {
+      const lat = Number(city.latitude);
+      const lng = Number(city.longitude);
+      if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+        continue;
+      }
+      const key = cellKey(Math.floor(lat), Math.floor(lng));
+      const cities = cityIndex.get(key) ?? [];
+      cities.push({ name: city.name, lat, lng, countryCode: city.countryCode, stateCode: city.stateCode });
+      cityIndex.set(key, cities);
+    }
+  }
+  return cityIndex;
+}
+
+// Lowercase and drop accents so "sao" finds "São Paulo"
+function foldName(name: string) {
+  return name.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().trim();
+}
+
+function getCityNames() {
+  if (!cityNames) {
+    cityNames = Array.from(getCityIndex().values())
+      .flat()
+      .map((city) => ({ folded: foldName(city.name), city }))
+      .sort((a, b) => (a.folded < b.folded ? -1 : a.folded > b.folded ? 1 : 0));
+  }
+  return cityNames;
+}
+
+function toPlace(city: GazetteerCity): EntryPlace {
+  return {
+    city: city.name,
+    region: getRegionName(city.countryCode, city.stateCode),
+    country: getCountryName(city.countryCode),
+    countryCode: city.countryCode,
+  };
+}
+
+function getRegionName(countryCode: string, stateCode: string) {
+  if (!regionNames) {
+    regionNames = new Map(State.getAllStates().map((state) => [`${state.countryCode}-${state.isoCode}`, state.name]));
+  }
+  return regionNames.get(`${countryCode}-${stateCode}`) ?? null;
+}
+
+function getCountryName(countryCode: string) {
+  if (!countryNames) {
+    countryNames = new Map(Country.getAllCountries().map((country) => [country.isoCode, country.name]));
+  }
+  return countryNames.get(countryCode) ?? countryCode;
+}
+
+/**
+ * The gazetteer city nearest to `location`, within MAX_PLACE_DISTANCE_KM.
+ */
+function findNearestCity(location: Location): GazetteerCity | undefined {
+  const index = getCityIndex();
+  const latCell = Math.floor(location.lat);
+  const lngCell = Math.floor(location.lng);
+  // A degree of longitude shrinks towards the poles, so search more cells there
+  const lngKm = KM_PER_DEGREE * Math.max(Math.cos((location.lat * Math.PI) / 180), 0.01);
+  const lngCells = Math.min(180, Math.ceil(MAX_PLACE_DISTANCE_KM / lngKm));
+
+  let nearest: GazetteerCity | undefined;
+  let nearestMeters = MAX_PLACE_DISTANCE_KM * 1000;
+  for (let dLat = -1; dLat <= 1; dLat++) {
+    for (let dLng = -lngCells; dLng <= lngCells; dLng++) {
+      for (const city of index.get(cellKey(latCell + dLat, lngCell + dLng)) ?? []) {
+        const meters = distanceMeters(location, city);
+        if (meters <= nearestMeters) {
+          nearest = city;
+          nearestMeters = meters;
+        }
+      }
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Name the place `location` is in after the nearest city in the bundled
+ * gazetteer, without calling out to a geocoding service. Returns null if
+ * there is no city nearby, e.g. out at sea.
+ */
+export function reverseGeocode(location: Location): EntryPlace | null {
+  const city = findNearestCity(location);
+  if (!city) {
+    return null;
+  }
+  return toPlace(city);
+}
+
+/**
+ * Cities whose name starts with `query`, ignoring case and accents, with
+ * exact matches first and then shorter names. Anything after a comma narrows
+ * the results by region or country, e.g. "paris, fr" or "paris, texas".
+ */
+export function searchPlaces(query: string, limit = 10): PlaceSearchResult[] {
+  const [name, within = ""] = query.split(",", 2).map(foldName);
+  if (!name) {
+    return [];
+  }
+
+  // Binary search for the first name at or after the query
+  const names = getCityNames();
+  let low = 0;
+  let high = names.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (names[mid].folded < name) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  const matches: { folded: string; place: PlaceSearchResult }[] = [];
+  const seen = new Set<string>();
+  for (let i = low; i < names.length && names[i].folded.startsWith(name); i++) {
+    const { folded, city } = names[i];
+    const place = { ...toPlace(city), lat: city.lat, lng: city.lng };
+    const key = `${folded}|${place.region}|${place.countryCode}`;
+    const isWithin = !within || [place.region, place.country, place.countryCode]
+      .some((part) => part && foldName(part).startsWith(within));
+    if (isWithin && !seen.has(key)) {
+      seen.add(key);
+      matches.push({ folded, place });
+    }
+  }
+
+  return matches
+    .sort((a, b) => Number(b.folded === name) - Number(a.folded === name) || a.folded.length - b.folded.length)
+    .slice(0, limit)
+    .map(({ place }) => place);
+}
+
+/**
+ * Fill in the place for updates that move an entry without naming where to,
+ * so that it always matches the entry's location. A null place counts as
+ * not naming one.
+ */
+export function withPlace<T extends { location?: DiaryEntry["location"]; place?: DiaryEntry["place"] }>(
+  updates: T,
+): T & Partial<Pick<DiaryEntry, "place">> {
+  if (updates.location === undefined || updates.place) {
+    return updates;
+  }
+  return { ...updates, place: updates.location && reverseGeocode(updates.location) };
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest";
+import { distanceMeters } from "@shared/geo";
+import {
+  boundsAround,
+  encodeGeohash,
+  geohashPrefixes,
+  isWithinBounds,
+  withGeohash,
+  type GeoBounds,
+} from "./geohash";
+
+const lisbon = { lat: 38.7223, lng: -9.1393 };
+
+// A grid of points across `bounds`, edges included
+function pointsIn(bounds: GeoBounds, steps = 10) {
+  const width = ((bounds.east - bounds.west + 360) % 360) || 360;
+  const points = [];
+  for (let i = 0; i <= steps; i++) {
+    for (let j = 0; j <= steps; j++) {
+      const lng = bounds.west + (width * j) / steps;
+      points.push({
+        lat: bounds.south + ((bounds.north - bounds.south) * i) / steps,
+        lng: lng > 180 ? lng - 360 : lng,
+      });
+    }
+  }
+  return points;
+}
+
+describe("encodeGeohash", () => {
+  it("encodes locations the standard way", () => {
+    expect(encodeGeohash({ lat: 57.64911, lng: 10.40744 }, 11)).toBe("u4pruydqqvj");
+    expect(encodeGeohash(lisbon)).toBe("eycs210vw");
+  });
+
+  it("gives nearby locations a shared prefix", () => {
+    expect(encodeGeohash({ lat: 38.7224, lng: -9.1392 }).slice(0, 6)).toBe(encodeGeohash(lisbon).slice(0, 6));
+  });
+
+  it("is filled in whenever an update sets the location", () => {
+    expect(withGeohash({ location: lisbon })).toEqual({ location: lisbon, geohash: "eycs210vw" });
+    expect(withGeohash({ location: null })).toEqual({ location: null, geohash: null });
+    expect(withGeohash({ caption: "Harbour" } as { location?: undefined })).toEqual({ caption: "Harbour" });
+  });
+});
+
+describe("isWithinBounds", () => {
+  it("includes the edges of the bounds", () => {
+    const bounds = { south: 38, west: -10, north: 39, east: -9 };
+
+    expect(isWithinBounds(lisbon, bounds)).toBe(true);
+    expect(isWithinBounds({ lat: 39, lng: -10 }, bounds)).toBe(true);
+    expect(isWithinBounds({ lat: 39.01, lng: -9.5 }, bounds)).toBe(false);
+    expect(isWithinBounds({ lat: 38.5, lng: -8.99 }, bounds)).toBe(false);
+  });
+
+  it("handles bounds that cross the antimeridian", () => {
+    const bounds = { south: -20, west: 170, north: -10, east: -170 };
+
+    expect(isWithinBounds({ lat: -17, lng: 178 }, bounds)).toBe(true);
+    expect(isWithinBounds({ lat: -17, lng: -178 }, bounds)).toBe(true);
+    expect(isWithinBounds({ lat: -17, lng: 0 }, bounds)).toBe(false);
+  });
+});
+
+describe("geohashPrefixes", () => {
+  it.each<[string, GeoBounds]>([
+    ["a city", { south: 38.69, west: -9.23, north: 38.8, east: -9.09 }],
+    ["a country", { south: 36.9, west: -9.6, north: 42.2, east: -6.1 }],
+    ["a continent", { south: 35, west: -25, north: 71, east: 45 }],
+    ["the antimeridian", { south: -20, west: 170, north: -10, east: -170 }],
+    ["a pole", { south: 80, west: -180, north: 90, east: 180 }],
+  ])("cover every location in %s with few prefixes", (_name, bounds) => {
+    const prefixes = geohashPrefixes(bounds);
+
+    expect(prefixes.length).toBeLessThanOrEqual(32);
+    for (const point of pointsIn(bounds)) {
+      const hash = encodeGeohash(point);
+      expect(prefixes.some((prefix) => hash.startsWith(prefix))).toBe(true);
+    }
+  });
+
+  it("uses long prefixes for a small area", () => {
+    const prefixes = geohashPrefixes({ south: 38.722, west: -9.14, north: 38.7225, east: -9.139 });
+
+    expect(prefixes.every((prefix) => prefix.length >= 6)).toBe(true);
+  });
+});
+
+describe("boundsAround", () => {
+  it("holds every point within the radius", () => {
+    const bounds = boundsAround(lisbon, 25);
+
+    for (let bearing = 0; bearing < 360; bearing += 15) {
+      const radians = (bearing * Math.PI) / 180;
+      // Just inside 25 km along each bearing
+      const point = {
+        lat: lisbon.lat + (24.9 / 111) * Math.cos(radians),
+        lng: lisbon.lng + (24.9 / 111) * Math.sin(radians) / Math.cos((lisbon.lat * Math.PI) / 180),
+      };
+      expect(distanceMeters(lisbon, point)).toBeLessThan(25_000);
+      expect(isWithinBounds(point, bounds)).toBe(true);
+    }
+  });
+
+  it("wraps round the antimeridian", () => {
+    const bounds = boundsAround({ lat: -17, lng: 179.9 }, 50);
+
+    expect(bounds.west).toBeGreaterThan(bounds.east);
+    expect(isWithinBounds({ lat: -17, lng: -179.9 }, bounds)).toBe(true);
+  });
+
+  it("takes every longitude near a pole or for a huge radius", () => {
+    expect(boundsAround({ lat: 89.9, lng: 10 }, 50)).toMatchObject({ west: -180, east: 180, north: 90 });
+    expect(boundsAround(lisbon, 20000)).toMatchObject({ west: -180, east: 180 });
+  });
+});
@@ -0,0 +1,133 @@
+import type { DiaryEntry } from "@shared/schema";
+
+type Location = NonNullable<DiaryEntry["location"]>;
+
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+// Stored geohashes are this long, a cell about 5 m across
+const GEOHASH_PRECISION = 9;
+// Most cells a query may look in before it switches to coarser, bigger cells
+const MAX_QUERY_CELLS = 32;
+const KM_PER_DEGREE = 111;
+
+/**
+ * An area between two latitudes and two longitudes. `west` is greater than
+ * `east` when the area crosses the antimeridian.
+ */
+export interface GeoBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * The geohash of `location`: alternate bits halve the longitude and latitude
+ * ranges, so locations that share a prefix share a cell.
+ */
+export function encodeGeohash(location: Location, precision = GEOHASH_PRECISION) {
+  const lat = [-90, 90];
+  const lng = [-180, 180];
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let isLng = true;
+
+  while (hash.length < precision) {
+    const range = isLng ? lng : lat;
+    const mid = (range[0] + range[1]) / 2;
+    const coordinate = isLng ? location.lng : location.lat;
+    value = value * 2 + (coordinate >= mid ? 1 : 0);
+    range[coordinate >= mid ? 0 : 1] = mid;
+    isLng = !isLng;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+  return hash;
+}
+
+/**
+ * Fill in the stored geohash whenever `updates` sets the location.
+ */
+export function withGeohash<T extends { location?: Location | null }>(updates: T): T & { geohash?: string | null } {
+  if (updates.location === undefined) {
+    return updates;
+  }
+  return { ...updates, geohash: updates.location && encodeGeohash(updates.location) };
+}
+
+// Longitude ranges of `bounds`, split in two where it crosses the antimeridian
+export function longitudeSpans({ west, east }: GeoBounds): [number, number][] {
+  return west <= east ? [[west, east]] : [[west, 180], [-180, east]];
+}
+
+/**
+ * Indexes of the cells of `size` degrees, counted from `start` (-90° or
+ * -180°), that [from, to] touches. The last cell also holds the far edge.
+ */
+export function cellRange(from: number, to: number, start: number, size: number) {
+  const count = Math.round((-2 * start) / size);
+  const first = Math.min(count - 1, Math.floor((from - start) / size));
+  const last = Math.min(count - 1, Math.floor((to - start) / size));
+  return { first, last };
+}
+
+/**
+ * Geohash prefixes whose cells together cover `bounds`, as long as they can be
+ * while staying few enough to query. An empty prefix covers the whole world.
+ */
+export function geohashPrefixes(bounds: GeoBounds): string[] {
+  for (let precision = GEOHASH_PRECISION; precision > 0; precision--) {
+    // Longitude takes the odd bit, so it gets the extra one
+    const latSize = 180 / 2 ** Math.floor((5 * precision) / 2);
+    const lngSize = 360 / 2 ** Math.ceil((5 * precision) / 2);
+
+    const rows = cellRange(bounds.south, bounds.north, -90, latSize);
+    const columns = longitudeSpans(bounds).map(([west, east]) => cellRange(west, east, -180, lngSize));
+    const columnCount = columns.reduce((sum, { first, last }) => sum + last - first + 1, 0);
+    if ((rows.last - rows.first + 1) * columnCount > MAX_QUERY_CELLS) {
+      continue;
+    }
+
+    const prefixes = new Set<string>();
+    for (let row = rows.first; row <= rows.last; row++) {
+      for (const { first, last } of columns) {
+        for (let column = first; column <= last; column++) {
+          const center = { lat: -90 + (row + 0.5) * latSize, lng: -180 + (column + 0.5) * lngSize };
+          prefixes.add(encodeGeohash(center, precision));
+        }
+      }
+    }
+    return Array.from(prefixes);
+  }
+  return [""];
+}
+
+export function isWithinBounds(location: Location, bounds: GeoBounds) {
+  return location.lat >= bounds.south
+    && location.lat <= bounds.north
+    && longitudeSpans(bounds).some(([west, east]) => location.lng >= west && location.lng <= east);
+}
+
+/**
+ * The smallest bounds holding every point within `radiusKm` of `center`.
+ * Near a pole, or for a radius wide enough to go all the way round, every
+ * longitude is included.
+ */
+export function boundsAround(center: Location, radiusKm: number): GeoBounds {
+  const latDegrees = radiusKm / KM_PER_DEGREE;
+  const south = Math.max(-90, center.lat - latDegrees);
+  const north = Math.min(90, center.lat + latDegrees);
+
+  const lngDegrees = latDegrees / Math.cos((Math.max(Math.abs(south), Math.abs(north)) * Math.PI) / 180);
+  if (south === -90 || north === 90 || !Number.isFinite(lngDegrees) || lngDegrees >= 180) {
+    return { south, west: -180, north, east: 180 };
+  }
+
+  // Wrap into [-180, 180]; west ends up east of east when crossing the antimeridian
+  const wrap = (lng: number) => ((((lng + 180) % 360) + 360) % 360) - 180;
+  return { south, west: wrap(center.lng - lngDegrees), north, east: wrap(center.lng + lngDegrees) };
+}
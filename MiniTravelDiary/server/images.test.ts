@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import sharp from "sharp";
+import { ImageValidationError, maxImageDimension, sanitizeImage, sniffImageType } from "./images";
+
+function solidImage(width: number, height: number) {
+  return sharp({ create: { width, height, channels: 3, background: "#336699" } });
+}
+
+async function rejection(promise: Promise<unknown>) {
+  const error = await promise.then(() => undefined, (error: unknown) => error);
+  expect(error).toBeInstanceOf(ImageValidationError);
+  return error as ImageValidationError;
+}
+
+describe("sniffImageType", () => {
+  it("recognises each allowed type by its magic bytes", async () => {
+    const image = solidImage(2, 2);
+
+    expect(sniffImageType(await image.clone().jpeg().toBuffer())).toBe("image/jpeg");
+    expect(sniffImageType(await image.clone().png().toBuffer())).toBe("image/png");
+    expect(sniffImageType(await image.clone().webp().toBuffer())).toBe("image/webp");
+    expect(sniffImageType(await image.clone().gif().toBuffer())).toBe("image/gif");
+  });
+
+  it("recognises nothing else", () => {
+    expect(sniffImageType(Buffer.from("<svg xmlns='http://www.w3.org/2000/svg'/>"))).toBeUndefined();
+    expect(sniffImageType(Buffer.from("%PDF-1.7"))).toBeUndefined();
+    expect(sniffImageType(Buffer.from([0xff, 0xd8]))).toBeUndefined();
+    expect(sniffImageType(Buffer.alloc(0))).toBeUndefined();
+  });
+});
+
+describe("sanitizeImage", () => {
+  it("re-encodes an image as the type it was sent as", async () => {
+    const png = await solidImage(30, 20).png().toBuffer();
+
+    const image = await sanitizeImage(png, "image/png");
+
+    expect(image).toMatchObject({ contentType: "image/png", width: 30, height: 20 });
+    expect(sniffImageType(image.data)).toBe("image/png");
+  });
+
+  it("drops metadata and stores the image upright", async () => {
+    const rotated = await solidImage(30, 20).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+
+    const image = await sanitizeImage(rotated, "image/jpeg");
+    const metadata = await sharp(image.data).metadata();
+
+    expect(image).toMatchObject({ width: 20, height: 30 });
+    expect(metadata).toMatchObject({ width: 20, height: 30 });
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it("rejects a file that isn't an image", async () => {
+    const error = await rejection(sanitizeImage(Buffer.from("<html></html>"), "image/jpeg"));
+
+    expect(error).toMatchObject({ status: 415, code: "unsupported_type" });
+  });
+
+  it("rejects an image sent as another type", async () => {
+    const png = await solidImage(2, 2).png().toBuffer();
+
+    const error = await rejection(sanitizeImage(png, "image/jpeg"));
+
+    expect(error).toMatchObject({ status: 415, code: "type_mismatch" });
+  });
+
+  it("rejects a file that only starts like an image", async () => {
+    const truncated = Buffer.concat([Buffer.from([0xff, 0xd8, 0xff, 0xe0]), Buffer.alloc(64)]);
+
+    const error = await rejection(sanitizeImage(truncated, "image/jpeg"));
+
+    expect(error).toMatchObject({ status: 422, code: "unreadable_image" });
+  });
+
+  it("accepts an image right at the dimension limit", async () => {
+    const wide = await solidImage(maxImageDimension, 1).png().toBuffer();
+
+    const image = await sanitizeImage(wide, "image/png");
+
+    expect(image.width).toBe(maxImageDimension);
+  });
+
+  it("rejects an image wider or higher than the limit", async () => {
+    const wide = await solidImage(maxImageDimension + 1, 1).png().toBuffer();
+    const high = await solidImage(1, maxImageDimension + 1).png().toBuffer();
+
+    expect(await rejection(sanitizeImage(wide, "image/png"))).toMatchObject({ status: 422, code: "dimensions_too_large" });
+    expect(await rejection(sanitizeImage(high, "image/png"))).toMatchObject({ status: 422, code: "dimensions_too_large" });
+  });
+});
@@ -0,0 +1,178 @@
+import sharp from "sharp";
+import type { AllowedImageType, ImageVariantName } from "@shared/schema";
+
+export type VariantFormat = "jpeg" | "png" | "webp";
+
+// Longest edge of each variant; images are never enlarged
+export const imageVariantSizes: Record<ImageVariantName, number> = {
+  thumb: 320,
+  medium: 960,
+  full: 2048,
+};
+
+export const variantExtensions: Record<VariantFormat, string> = {
+  jpeg: "jpg",
+  png: "png",
+  webp: "webp",
+};
+
+/**
+ * The non-WebP format variants are served in. PNG and GIF may be transparent
+ * so they stay lossless; everything else becomes JPEG.
+ */
+export function fallbackFormat(contentType: string): VariantFormat {
+  return contentType === "image/png" || contentType === "image/gif" ? "png" : "jpeg";
+}
+
+// Largest width or height accepted for an upload
+export const maxImageDimension = 12000;
+
+// Refuse to decode anything bigger, so a tiny file can't claim to be huge
+const maxInputPixels = 100_000_000;
+
+export type ImageErrorCode =
+  | "unsupported_type"
+  | "type_mismatch"
+  | "unreadable_image"
+  | "dimensions_too_large";
+
+/**
+ * An upload that isn't an acceptable image. `status` is the HTTP status to
+ * answer with and `code` tells clients which check failed.
+ */
+export class ImageValidationError extends Error {
+  constructor(
+    public status: number,
+    public code: ImageErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = "ImageValidationError";
+  }
+}
+
+/**
+ * The image type `data` actually is, from its leading magic bytes.
+ */
+export function sniffImageType(data: Buffer): AllowedImageType | undefined {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  const header = data.subarray(0, 12).toString("latin1");
+  if (header.startsWith("GIF87a") || header.startsWith("GIF89a")) {
+    return "image/gif";
+  }
+  if (header.startsWith("RIFF") && header.slice(8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  return undefined;
+}
+
+/**
+ * Check that `data` is the image type it claims to be, decode it within the
+ * size limits and re-encode it upright. Re-encoding drops anything riding
+ * along in the file (metadata, trailing bytes, polyglot payloads), so only
+ * the returned pixels are ever stored.
+ */
+export async function sanitizeImage(data: Buffer, declaredType: string) {
+  const contentType = sniffImageType(data);
+
+  if (!contentType) {
+    throw new ImageValidationError(415, "unsupported_type", "File is not a JPEG, PNG, WebP or GIF image");
+  }
+
+  if (contentType !== declaredType) {
+    throw new ImageValidationError(415, "type_mismatch", `File was sent as ${declaredType} but is ${contentType}`);
+  }
+
+  const animated = contentType === "image/gif" || contentType === "image/webp";
+  const image = sharp(data, { animated, limitInputPixels: maxInputPixels, failOn: "error" });
+
+  const metadata = await image.metadata().catch(() => {
+    throw new ImageValidationError(422, "unreadable_image", "Image could not be decoded");
+  });
+
+  const { width, height } = metadata.autoOrient;
+  const frameHeight = metadata.pageHeight ?? height;
+  if (Math.max(width, frameHeight) > maxImageDimension) {
+    throw new ImageValidationError(
+      422,
+      "dimensions_too_large",
+      `Images can be at most ${maxImageDimension}px wide or high`,
+    );
+  }
+
+  let output: Buffer;
+  try {
+    const upright = image.autoOrient();
+    switch (contentType) {
+      case "image/jpeg":
+        output = await upright.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+        break;
+      case "image/png":
+        output = await upright.png().toBuffer();
+        break;
+      case "image/webp":
+        output = await upright.webp({ quality: 90 }).toBuffer();
+        break;
+      case "image/gif":
+        output = await upright.gif().toBuffer();
+        break;
+    }
+  } catch {
+    throw new ImageValidationError(422, "unreadable_image", "Image could not be decoded");
+  }
+
+  return { data: output, contentType, width, height: frameHeight };
+}
+
+/**
+ * Display dimensions of an image, with EXIF rotation applied. Returns
+ * undefined if the data can't be decoded as an image.
+ */
+export async function readImageSize(data: Buffer): Promise<{ width: number; height: number } | undefined> {
+  try {
+    const { autoOrient } = await sharp(data).metadata();
+    return autoOrient;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Size of `variant` for an image of the given display dimensions.
+ */
+export function variantSize(width: number, height: number, variant: ImageVariantName) {
+  const scale = Math.min(1, imageVariantSizes[variant] / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+/**
+ * Render one variant of `data`: upright, scaled down and re-encoded. Only the
+ * first frame of animated images is kept.
+ */
+export async function renderVariant(
+  data: Buffer,
+  variant: ImageVariantName,
+  format: VariantFormat,
+): Promise<Buffer> {
+  const size = imageVariantSizes[variant];
+  const image = sharp(data)
+    .autoOrient()
+    .resize(size, size, { fit: "inside", withoutEnlargement: true });
+
+  switch (format) {
+    case "webp":
+      return image.webp({ quality: 80 }).toBuffer();
+    case "png":
+      return image.png().toBuffer();
+    case "jpeg":
+      return image.jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+  }
+}
@@ -1,11 +1,16 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { db } from "./db";
+import { applyPendingMigrations, getMigrationStatus } from "./migrations";
+import { startTrashPurgeJob } from "./trash";
+import { startJourneyDetectionJob } from "./journeys";
+import { startUploadCleanupJob } from "./uploads";
 
 const app = express();
-// Increase the limit to 50mb to handle larger image data URLs
-app.use(express.json({ limit: '50mb' }));
-app.use(express.urlencoded({ extended: false, limit: '50mb' }));
+// Images are uploaded separately to /api/media, so JSON bodies stay small
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -37,7 +42,38 @@ app.use((req, res, next) => {
   next();
 });
 
+// Bring the schema up to date before serving any request. With
+// MIGRATE_ON_START=false migrations are left to `npm run db:migrate` and the
+// server only checks that none are pending.
+async function prepareDatabase() {
+  if (!db) {
+    return;
+  }
+
+  if (process.env.MIGRATE_ON_START === "false") {
+    const { pending } = await getMigrationStatus(db);
+    if (pending.length > 0) {
+      throw new Error(
+        `Pending migrations: ${pending.map((m) => m.tag).join(", ")}. Run npm run db:migrate first.`,
+      );
+    }
+    return;
+  }
+
+  const applied = await applyPendingMigrations(db);
+  for (const migration of applied) {
+    log(`applied migration ${migration.tag}`, "db");
+  }
+}
+
 (async () => {
+  try {
+    await prepareDatabase();
+  } catch (error) {
+    log(`refusing to start: ${error instanceof Error ? error.message : error}`, "db");
+    process.exit(1);
+  }
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +103,8 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startTrashPurgeJob();
+    startUploadCleanupJob();
+    startJourneyDetectionJob();
   });
 })();
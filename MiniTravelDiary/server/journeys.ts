@@ -0,0 +1,228 @@
+import { format } from "date-fns";
+import { distanceMeters } from "@shared/geo";
+import type { DiaryEntry, JourneySuggestion, JourneySuggestionSummary } from "@shared/schema";
+import { reverseGeocode } from "./gazetteer";
+import { withImageVariants } from "./media";
+import { withPrivacyZones } from "./privacy-zones";
+import { storage } from "./storage";
+import { sortChronologically, takenAt } from "./trips";
+import { log } from "./vite";
+
+type Location = NonNullable<DiaryEntry["location"]>;
+
+const DETECTION_INTERVAL_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fewer entries than this aren't worth suggesting as a journey
+const MIN_JOURNEY_ENTRIES = 2;
+
+// More than this many days between consecutive entries starts a new journey
+export const journeyGapDays = Number(process.env.JOURNEY_GAP_DAYS) || 3;
+
+// As does a jump of more than this many kilometers
+export const journeyJumpKm = Number(process.env.JOURNEY_JUMP_KM) || 300;
+
+function takenTime(entry: DiaryEntry) {
+  return new Date(takenAt(entry)).getTime();
+}
+
+/**
+ * Split `entries` into journeys, oldest first. Walking through them in the
+ * order they were taken, a gap of more than `gapDays` or a jump of more than
+ * `jumpKm` from the last located entry starts a new journey.
+ */
+export function clusterEntries(
+  entries: DiaryEntry[],
+  { gapDays = journeyGapDays, jumpKm = journeyJumpKm } = {},
+): DiaryEntry[][] {
+  const clusters: DiaryEntry[][] = [];
+  let current: DiaryEntry[] = [];
+  let lastTime = 0;
+  let lastLocation: Location | null = null;
+
+  for (const entry of sortChronologically(entries)) {
+    const time = takenTime(entry);
+    const isGap = time - lastTime > gapDays * DAY_MS;
+    const isJump = !!entry.location && !!lastLocation
+      && distanceMeters(lastLocation, entry.location) > jumpKm * 1000;
+
+    if (current.length > 0 && (isGap || isJump)) {
+      clusters.push(current);
+      current = [];
+      lastLocation = null;
+    }
+
+    current.push(entry);
+    lastTime = time;
+    lastLocation = entry.location ?? lastLocation;
+  }
+
+  if (current.length > 0) {
+    clusters.push(current);
+  }
+  return clusters;
+}
+
+// The middle of the 1° cell holding most of the located entries
+function dominantLocation(entries: DiaryEntry[]): Location | null {
+  const cells = new Map<string, Location[]>();
+  for (const { location } of entries) {
+    if (location) {
+      const key = `${Math.floor(location.lat)},${Math.floor(location.lng)}`;
+      cells.set(key, [...(cells.get(key) ?? []), location]);
+    }
+  }
+
+  const busiest = Array.from(cells.values()).sort((a, b) => b.length - a.length)[0];
+  if (!busiest) {
+    return null;
+  }
+  return {
+    lat: busiest.reduce((sum, location) => sum + location.lat, 0) / busiest.length,
+    lng: busiest.reduce((sum, location) => sum + location.lng, 0) / busiest.length,
+  };
+}
+
+function formatRegion({ lat, lng }: Location) {
+  const latitude = `${Math.abs(lat).toFixed(0)}°${lat >= 0 ? "N" : "S"}`;
+  const longitude = `${Math.abs(lng).toFixed(0)}°${lng >= 0 ? "E" : "W"}`;
+  return `${latitude} ${longitude}`;
+}
+
+function formatMonths(first: Date, last: Date) {
+  if (first.getFullYear() !== last.getFullYear()) {
+    return `${format(first, "MMM yyyy")} – ${format(last, "MMM yyyy")}`;
+  }
+  if (first.getMonth() !== last.getMonth()) {
+    return `${format(first, "MMM")} – ${format(last, "MMM yyyy")}`;
+  }
+  return format(first, "MMMM yyyy");
+}
+
+/**
+ * Name a journey after the place most of its entries were taken in and the
+ * months it spans, e.g. "Kyoto, May 2024". Places missing from the gazetteer
+ * are named by their coordinates, e.g. "Around 35°N 139°E, May 2024".
+ */
+export function nameJourney(entries: DiaryEntry[]) {
+  const sorted = sortChronologically(entries);
+  const months = formatMonths(new Date(takenAt(sorted[0])), new Date(takenAt(sorted[sorted.length - 1])));
+  const location = dominantLocation(sorted);
+  if (!location) {
+    return `Journey, ${months}`;
+  }
+  const place = reverseGeocode(location);
+  return place ? `${place.city}, ${months}` : `Around ${formatRegion(location)}, ${months}`;
+}
+
+/**
+ * The entries of `suggestion` that can still join a trip, oldest first.
+ * `entries` are the owner's entries that aren't in a trip or the trash.
+ */
+export function suggestedEntries(suggestion: JourneySuggestion, entries: DiaryEntry[]) {
+  return sortChronologically(entries.filter((entry) => suggestion.entryIds.includes(entry.id)));
+}
+
+// The owner's entries that no trip claims yet
+export async function getUngroupedEntries(userId: string) {
+  const entries = await storage.getEntriesByUserId(userId);
+  return entries.filter((entry) => !entry.tripId);
+}
+
+// Refreshes under way, by user, so overlapping ones don't suggest a journey twice
+const refreshesInFlight = new Map<string, Promise<number>>();
+
+/**
+ * Bring `userId`'s journey suggestions up to date. Entries that have joined a
+ * trip or been trashed are dropped from their suggestions, and entries no
+ * suggestion covers yet are clustered into new ones. Existing suggestions are
+ * otherwise left alone so that merges and splits made by the owner stick.
+ * Returns how many suggestions were added. A call made while one for the same
+ * user is under way shares its result.
+ */
+export function refreshJourneySuggestions(userId: string): Promise<number> {
+  let refresh = refreshesInFlight.get(userId);
+  if (!refresh) {
+    refresh = updateJourneySuggestions(userId).finally(() => refreshesInFlight.delete(userId));
+    refreshesInFlight.set(userId, refresh);
+  }
+  return refresh;
+}
+
+async function updateJourneySuggestions(userId: string): Promise<number> {
+  const entries = await getUngroupedEntries(userId);
+  const covered = new Set<number>();
+
+  for (const suggestion of await storage.getJourneySuggestionsByUserId(userId)) {
+    const remaining = suggestedEntries(suggestion, entries).filter((entry) => !covered.has(entry.id));
+    remaining.forEach((entry) => covered.add(entry.id));
+
+    if (remaining.length === 0) {
+      await storage.deleteJourneySuggestion(suggestion.id);
+    } else if (remaining.length !== suggestion.entryIds.length) {
+      await storage.updateJourneySuggestion(suggestion.id, {
+        name: nameJourney(remaining),
+        entryIds: remaining.map((entry) => entry.id),
+      });
+    }
+  }
+
+  const journeys = clusterEntries(entries.filter((entry) => !covered.has(entry.id)))
+    .filter((journey) => journey.length >= MIN_JOURNEY_ENTRIES);
+
+  for (const journey of journeys) {
+    await storage.createJourneySuggestion({
+      userId,
+      name: nameJourney(journey),
+      entryIds: journey.map((entry) => entry.id),
+    });
+  }
+  return journeys.length;
+}
+
+/**
+ * Describe each of `userId`'s suggestions with the entries it would group,
+ * skipping any that no longer have entries left to group.
+ */
+export async function toJourneySuggestionSummaries(
+  suggestions: JourneySuggestion[],
+  entries: DiaryEntry[],
+  userId: string,
+): Promise<JourneySuggestionSummary[]> {
+  const summaries = await Promise.all(suggestions.map(async (suggestion) => {
+    const suggested = suggestedEntries(suggestion, entries);
+    if (suggested.length === 0) {
+      return null;
+    }
+    return {
+      ...suggestion,
+      startDate: takenAt(suggested[0]).slice(0, 10),
+      endDate: takenAt(suggested[suggested.length - 1]).slice(0, 10),
+      entries: await withPrivacyZones(await withImageVariants(suggested), userId),
+    };
+  }));
+  return summaries.filter((summary) => summary !== null);
+}
+
+/**
+ * Propose journeys for every user now and then every hour for the life of
+ * the process. Listing suggestions also refreshes the caller's first.
+ */
+export function startJourneyDetectionJob() {
+  const run = async () => {
+    try {
+      let added = 0;
+      for (const userId of await storage.getUserIdsWithUngroupedEntries()) {
+        added += await refreshJourneySuggestions(userId);
+      }
+      if (added > 0) {
+        log(`suggested ${added} journeys`, "journeys");
+      }
+    } catch (error) {
+      console.error('Error detecting journeys:', error);
+    }
+  };
+
+  run();
+  setInterval(run, DETECTION_INTERVAL_MS).unref();
+}
@@ -0,0 +1,19 @@
+import { measureUnsizedMedia, moveInlineImagesToMediaStore } from "./media";
+
+// Usage: tsx server/media-backfill.ts
+async function main() {
+  const moved = await moveInlineImagesToMediaStore();
+  console.log(`Moved ${moved} inline images to the media store`);
+
+  // Variants themselves are rendered on first request
+  const measured = await measureUnsizedMedia();
+  console.log(`Measured ${measured} images for resized variants`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
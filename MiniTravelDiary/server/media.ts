@@ -0,0 +1,364 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, rename, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import {
+  imageVariantNames,
+  type DiaryEntry,
+  type ImageVariantName,
+  type ImageVariants,
+  type Media,
+  type UploadedMedia,
+} from "@shared/schema";
+import {
+  fallbackFormat,
+  ImageValidationError,
+  readImageSize,
+  renderVariant,
+  sanitizeImage,
+  variantExtensions,
+  variantSize,
+  type VariantFormat,
+} from "./images";
+import { photoMediaIds } from "./entry-photos";
+import { readPhotoExif } from "./exif";
+import { storage } from "./storage";
+
+export const maxMediaBytes = Number(process.env.MEDIA_MAX_BYTES) || 20 * 1024 * 1024;
+
+/**
+ * Where media bytes are kept. Keys are derived from content hashes, so `put`
+ * never has to overwrite anything and stored objects never change. Deleting a missing key
+ * is not an error.
+ */
+export interface MediaStore {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Files are fanned out by the first two hex characters of the hash so no
+// single directory grows too large.
+export class LocalMediaStore implements MediaStore {
+  constructor(private root: string) {}
+
+  private pathFor(key: string) {
+    return path.join(this.root, key.slice(0, 2), key);
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.pathFor(key);
+    if (await stat(file).catch(() => undefined)) {
+      return;
+    }
+
+    await mkdir(path.dirname(file), { recursive: true });
+    // Write then rename so a crashed upload never leaves a partial file
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, data);
+    await rename(tmp, file);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.pathFor(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+}
+
+// Works with AWS S3 and S3-compatible services (R2, MinIO, ...) through
+// MEDIA_S3_ENDPOINT. Credentials come from the usual AWS_* variables.
+export class S3MediaStore implements MediaStore {
+  private client: S3Client;
+
+  constructor(private bucket: string, options: { region?: string; endpoint?: string } = {}) {
+    this.client = new S3Client({
+      region: options.region || "auto",
+      endpoint: options.endpoint,
+      forcePathStyle: !!options.endpoint,
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      const object = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined;
+    } catch (error) {
+      if (error instanceof NoSuchKey) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+function createMediaStore(): MediaStore {
+  const bucket = process.env.MEDIA_S3_BUCKET;
+  if (bucket) {
+    return new S3MediaStore(bucket, {
+      region: process.env.MEDIA_S3_REGION,
+      endpoint: process.env.MEDIA_S3_ENDPOINT,
+    });
+  }
+  return new LocalMediaStore(path.resolve(process.env.MEDIA_DIR || "data/media"));
+}
+
+export const mediaStore = createMediaStore();
+
+export function isMediaId(id: string) {
+  return /^[0-9a-f]{64}$/.test(id);
+}
+
+// Variants are derived from the original, so they're keyed off its hash
+function variantKey(id: string, variant: ImageVariantName, format: VariantFormat) {
+  return `${id}-${variant}.${variantExtensions[format]}`;
+}
+
+function variantFormats(record: Media): VariantFormat[] {
+  return [fallbackFormat(record.contentType), "webp"];
+}
+
+export function getMediaUrl(id: string, variant?: ImageVariantName, format?: VariantFormat) {
+  return variant && format
+    ? `/api/media/${id}/${variant}.${variantExtensions[format]}`
+    : `/api/media/${id}`;
+}
+
+/**
+ * Validate and sanitize an uploaded image, then store it under the sha256 of
+ * the sanitized bytes and record it, along with every resized variant.
+ * Uploading the same image twice returns the existing record. The file's
+ * EXIF data is returned alongside. Throws ImageValidationError if `data`
+ * isn't an acceptable `declaredType` image.
+ */
+export async function saveMedia(data: Buffer, declaredType: string, uploadedBy: string): Promise<UploadedMedia> {
+  const image = await sanitizeImage(data, declaredType);
+  const exif = await readPhotoExif(data);
+  const id = createHash("sha256").update(image.data).digest("hex");
+  const existing = await storage.getMedia(id);
+  if (existing) {
+    return { ...existing, exif };
+  }
+
+  await mediaStore.put(id, image.data, image.contentType);
+
+  const record = await storage.createMedia({
+    id,
+    contentType: image.contentType,
+    size: image.data.length,
+    uploadedBy,
+    width: image.width,
+    height: image.height,
+  });
+
+  for (const variant of imageVariantNames) {
+    for (const format of variantFormats(record)) {
+      const variantData = await renderVariant(image.data, variant, format);
+      await mediaStore.put(variantKey(id, variant, format), variantData, `image/${format}`);
+    }
+  }
+
+  return { ...record, exif };
+}
+
+/**
+ * Bytes of one variant of `record`, rendered and stored on first request if
+ * it is missing. Returns undefined for formats the image isn't served in.
+ */
+export async function getMediaVariant(
+  record: Media,
+  variant: ImageVariantName,
+  extension: string,
+): Promise<{ data: Buffer; contentType: string } | undefined> {
+  const format = variantFormats(record).find((f) => variantExtensions[f] === extension);
+  if (!format || record.width === null) {
+    return undefined;
+  }
+
+  const key = variantKey(record.id, variant, format);
+  const contentType = `image/${format}`;
+  const stored = await mediaStore.get(key);
+  if (stored) {
+    return { data: stored, contentType };
+  }
+
+  const original = await mediaStore.get(record.id);
+  if (!original) {
+    return undefined;
+  }
+
+  const data = await renderVariant(original, variant, format);
+  await mediaStore.put(key, data, contentType);
+  return { data, contentType };
+}
+
+/**
+ * Delete those of `ids` that no entry, revision or trip uses any more, with
+ * their variants, so they can no longer be fetched. Returns how many were
+ * deleted.
+ */
+export async function deleteUnusedMedia(ids: string[]): Promise<number> {
+  const records = await storage.deleteUnusedMedia(ids);
+
+  for (const record of records) {
+    await mediaStore.delete(record.id);
+    for (const variant of imageVariantNames) {
+      for (const format of variantFormats(record)) {
+        await mediaStore.delete(variantKey(record.id, variant, format));
+      }
+    }
+  }
+
+  return records.length;
+}
+
+function describeVariants(record: Media): ImageVariants | null {
+  if (record.width === null || record.height === null) {
+    return null;
+  }
+
+  const fallback = fallbackFormat(record.contentType);
+  const variants = {} as ImageVariants;
+  for (const variant of imageVariantNames) {
+    variants[variant] = {
+      ...variantSize(record.width, record.height, variant),
+      url: getMediaUrl(record.id, variant, fallback),
+      webpUrl: getMediaUrl(record.id, variant, "webp"),
+    };
+  }
+  return variants;
+}
+
+/**
+ * Add the variants map of each entry's cover image and of every photo, for
+ * entries sent to clients.
+ */
+export async function withImageVariants<T extends Pick<DiaryEntry, "mediaId" | "photos">>(
+  entries: T[],
+): Promise<(T & { variants: ImageVariants | null; photoVariants: Record<string, ImageVariants | null> })[]> {
+  const ids = Array.from(new Set(entries.flatMap(photoMediaIds)));
+  const records = new Map((await storage.getMediaByIds(ids)).map((record) => [record.id, record]));
+  const variantsOf = (id: string | null) => {
+    const record = id ? records.get(id) : undefined;
+    return record ? describeVariants(record) : null;
+  };
+
+  return entries.map((entry) => ({
+    ...entry,
+    variants: variantsOf(entry.mediaId),
+    photoVariants: Object.fromEntries(entry.photos.map((photo) => [photo.mediaId, variantsOf(photo.mediaId)])),
+  }));
+}
+
+export async function withImageVariant<T extends Pick<DiaryEntry, "mediaId" | "photos">>(entry: T) {
+  const [withVariants] = await withImageVariants([entry]);
+  return withVariants;
+}
+
+function parseDataUrl(url: string) {
+  const match = /^data:([^;,]+);base64,([\s\S]*)$/.exec(url);
+  return match ? { contentType: match[1], data: Buffer.from(match[2], "base64") } : undefined;
+}
+
+/**
+ * Re-encode an image stored inline as a data URL so that it carries no
+ * metadata, or return null if it can't be decoded. URLs of images hosted
+ * elsewhere are returned as they are.
+ */
+export async function stripInlineImageMetadata(url: string): Promise<string | null> {
+  const image = parseDataUrl(url);
+  if (!image) {
+    return url;
+  }
+
+  try {
+    const clean = await sanitizeImage(image.data, image.contentType);
+    return `data:${clean.contentType};base64,${clean.data.toString("base64")}`;
+  } catch (error) {
+    if (!(error instanceof ImageValidationError)) {
+      throw error;
+    }
+    return null;
+  }
+}
+
+/**
+ * Move images stored inline as data URLs on older entries into the media
+ * store. Returns how many entries were moved.
+ */
+export async function moveInlineImagesToMediaStore(): Promise<number> {
+  const entries = await storage.getEntriesWithInlineImages();
+  let moved = 0;
+
+  for (const entry of entries) {
+    const image = parseDataUrl(entry.imageUrl!);
+    if (!image) {
+      console.warn(`Skipping entry ${entry.id}: image is not an inline data URL`);
+      continue;
+    }
+
+    try {
+      const record = await saveMedia(image.data, image.contentType, entry.userId);
+      await storage.moveEntryImageToMedia(entry.id, record.id);
+      moved++;
+    } catch (error) {
+      if (!(error instanceof ImageValidationError)) {
+        throw error;
+      }
+      console.warn(`Skipping entry ${entry.id}: ${error.message}`);
+    }
+  }
+
+  return moved;
+}
+
+/**
+ * Record dimensions for media uploaded before variants existed, so their
+ * variants can be served. Returns how many were updated.
+ */
+export async function measureUnsizedMedia(): Promise<number> {
+  const records = await storage.getMediaWithoutDimensions();
+  let measured = 0;
+
+  for (const record of records) {
+    const data = await mediaStore.get(record.id);
+    const size = data && await readImageSize(data);
+    if (!size) {
+      console.warn(`Skipping media ${record.id}: image could not be read`);
+      continue;
+    }
+
+    await storage.setMediaDimensions(record.id, size.width, size.height);
+    measured++;
+  }
+
+  return measured;
+}
@@ -0,0 +1,51 @@
+import { db } from "./db";
+import {
+  applyPendingMigrations,
+  getMigrationStatus,
+  rollbackLastMigration,
+} from "./migrations";
+
+// Usage: tsx server/migrate.ts <up|status|rollback>
+async function main(command: string | undefined) {
+  if (!db) {
+    throw new Error("DATABASE_URL is not set; ensure the database is provisioned");
+  }
+
+  switch (command) {
+    case "up": {
+      const applied = await applyPendingMigrations(db);
+      if (applied.length === 0) {
+        console.log("Database is up to date");
+      }
+      for (const migration of applied) {
+        console.log(`Applied ${migration.tag}`);
+      }
+      break;
+    }
+    case "status": {
+      const { applied, pending } = await getMigrationStatus(db);
+      for (const migration of applied) {
+        console.log(`[applied] ${migration.tag}`);
+      }
+      for (const migration of pending) {
+        console.log(`[pending] ${migration.tag}`);
+      }
+      break;
+    }
+    case "rollback": {
+      const migration = await rollbackLastMigration(db);
+      console.log(migration ? `Rolled back ${migration.tag}` : "No migrations to roll back");
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}", expected up, status or rollback`);
+  }
+}
+
+main(process.argv[2]).then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
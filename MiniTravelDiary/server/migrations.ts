@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { desc, eq, sql } from "drizzle-orm";
+import { bigint, pgSchema, serial, text } from "drizzle-orm/pg-core";
+import type { Database } from "./db";
+
+// Same bookkeeping table drizzle-kit uses, so `drizzle-kit migrate` and this
+// runner agree on what has been applied.
+const drizzleSchema = pgSchema("drizzle");
+const appliedMigrations = drizzleSchema.table("__drizzle_migrations", {
+  id: serial("id").primaryKey(),
+  hash: text("hash").notNull(),
+  createdAt: bigint("created_at", { mode: "number" }),
+});
+
+export const migrationsFolder = path.resolve(import.meta.dirname, "..", "migrations");
+
+export interface Migration {
+  tag: string;
+  when: number;
+  hash: string;
+  statements: string[];
+  downStatements: string[] | null;
+}
+
+export interface MigrationStatus {
+  applied: Migration[];
+  pending: Migration[];
+}
+
+export class MigrationError extends Error {}
+
+function splitStatements(source: string): string[] {
+  return source
+    .split("--> statement-breakpoint")
+    .map((statement) => statement.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Read the migrations generated by `npm run db:generate`, in journal order.
+ * A migration can be rolled back when a `<tag>.down.sql` file sits next to it.
+ */
+export function readMigrations(folder = migrationsFolder): Migration[] {
+  const journalPath = path.join(folder, "meta", "_journal.json");
+  if (!fs.existsSync(journalPath)) {
+    throw new MigrationError(`Migration journal not found at ${journalPath}`);
+  }
+
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf-8")) as {
+    entries: { tag: string; when: number }[];
+  };
+
+  return journal.entries.map(({ tag, when }) => {
+    const source = fs.readFileSync(path.join(folder, `${tag}.sql`), "utf-8");
+    const downPath = path.join(folder, `${tag}.down.sql`);
+
+    return {
+      tag,
+      when,
+      hash: crypto.createHash("sha256").update(source).digest("hex"),
+      statements: splitStatements(source),
+      downStatements: fs.existsSync(downPath)
+        ? splitStatements(fs.readFileSync(downPath, "utf-8"))
+        : null,
+    };
+  });
+}
+
+async function ensureMigrationsTable(db: Database) {
+  await db.execute(sql`CREATE SCHEMA IF NOT EXISTS "drizzle"`);
+  await db.execute(sql`
+    CREATE TABLE IF NOT EXISTS "drizzle"."__drizzle_migrations" (
+      id SERIAL PRIMARY KEY,
+      hash text NOT NULL,
+      created_at bigint
+    )
+  `);
+}
+
+/**
+ * Compare the migrations on disk with the ones recorded in the database.
+ * Throws if the database has a migration that is missing or was edited
+ * after it was applied, since the schema can no longer be trusted.
+ */
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus> {
+  await ensureMigrationsTable(db);
+
+  const migrations = readMigrations();
+  const rows = await db.select().from(appliedMigrations).orderBy(appliedMigrations.createdAt);
+
+  for (const row of rows) {
+    const migration = migrations.find((m) => m.when === row.createdAt);
+    if (!migration) {
+      throw new MigrationError(
+        `Database has migration ${row.createdAt} which is not in ${migrationsFolder}`,
+      );
+    }
+    if (migration.hash !== row.hash) {
+      throw new MigrationError(`Migration ${migration.tag} was modified after it was applied`);
+    }
+  }
+
+  const appliedAt = new Set(rows.map((row) => row.createdAt));
+  return {
+    applied: migrations.filter((m) => appliedAt.has(m.when)),
+    pending: migrations.filter((m) => !appliedAt.has(m.when)),
+  };
+}
+
+/**
+ * Apply every pending migration in a single transaction, so a failure
+ * leaves the schema exactly as it was.
+ */
+export async function applyPendingMigrations(db: Database): Promise<Migration[]> {
+  const { applied, pending } = await getMigrationStatus(db);
+  const latestApplied = applied[applied.length - 1];
+
+  const outOfOrder = pending.find((m) => latestApplied && m.when < latestApplied.when);
+  if (outOfOrder) {
+    throw new MigrationError(
+      `Migration ${outOfOrder.tag} is older than the latest applied migration ${latestApplied.tag}`,
+    );
+  }
+
+  await db.transaction(async (tx) => {
+    for (const migration of pending) {
+      for (const statement of migration.statements) {
+        await tx.execute(sql.raw(statement));
+      }
+      await tx.insert(appliedMigrations).values({
+        hash: migration.hash,
+        createdAt: migration.when,
+      });
+    }
+  });
+
+  return pending;
+}
+
+/**
+ * Undo the most recently applied migration using its `.down.sql` file.
+ */
+export async function rollbackLastMigration(db: Database): Promise<Migration | null> {
+  const { applied } = await getMigrationStatus(db);
+  const migration = applied[applied.length - 1];
+
+  if (!migration) {
+    return null;
+  }
+  if (!migration.downStatements) {
+    throw new MigrationError(`Migration ${migration.tag} has no ${migration.tag}.down.sql file`);
+  }
+
+  const [row] = await db
+    .select()
+    .from(appliedMigrations)
+    .where(eq(appliedMigrations.createdAt, migration.when))
+    .orderBy(desc(appliedMigrations.id))
+    .limit(1);
+
+  await db.transaction(async (tx) => {
+    for (const statement of migration.downStatements!) {
+      await tx.execute(sql.raw(statement));
+    }
+    await tx.delete(appliedMigrations).where(eq(appliedMigrations.id, row.id));
+  });
+
+  return migration;
+}
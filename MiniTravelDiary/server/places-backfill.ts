@@ -0,0 +1,23 @@
+import { reverseGeocode } from "./gazetteer";
+import { storage } from "./storage";
+
+// Usage: tsx server/places-backfill.ts
+async function main() {
+  let named = 0;
+  for (const entry of await storage.getEntriesWithoutPlace()) {
+    const place = entry.location && reverseGeocode(entry.location);
+    if (place) {
+      await storage.setEntryPlace(entry.id, place);
+      named++;
+    }
+  }
+  console.log(`Named the places of ${named} entries`);
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  },
+);
@@ -0,0 +1,46 @@
+import { distanceMeters } from "@shared/geo";
+import type { DiaryEntry, PrivacyZone } from "@shared/schema";
+import { storage } from "./storage";
+
+type Location = NonNullable<DiaryEntry["location"]>;
+
+/**
+ * The first of `zones` that `location` falls inside, if any.
+ */
+export function findPrivacyZone(location: Location, zones: PrivacyZone[]): PrivacyZone | undefined {
+  return zones.find((zone) => distanceMeters(location, zone) <= zone.radiusMeters);
+}
+
+/**
+ * Whether `entry`'s location falls in one of its owner's privacy zones, in
+ * which case it must only ever be shown to the owner.
+ */
+export async function isInPrivacyZone(entry: Pick<DiaryEntry, "userId" | "location">) {
+  if (!entry.location) {
+    return false;
+  }
+  const zones = await storage.getPrivacyZonesByUserId(entry.userId);
+  return !!findPrivacyZone(entry.location, zones);
+}
+
+/**
+ * Flag each of `userId`'s entries with the privacy zone it falls in, for
+ * entries sent to their owner. Zones are matched when entries are read, so
+ * adding or removing a zone applies to existing entries straight away.
+ */
+export async function withPrivacyZones<T extends Pick<DiaryEntry, "location">>(
+  entries: T[],
+  userId: string,
+): Promise<(T & { privacyZone: Pick<PrivacyZone, "id" | "label"> | null })[]> {
+  const zones = await storage.getPrivacyZonesByUserId(userId);
+
+  return entries.map((entry) => {
+    const zone = entry.location ? findPrivacyZone(entry.location, zones) : undefined;
+    return { ...entry, privacyZone: zone ? { id: zone.id, label: zone.label } : null };
+  });
+}
+
+export async function withPrivacyZone<T extends Pick<DiaryEntry, "location">>(entry: T, userId: string) {
+  const [withZone] = await withPrivacyZones([entry], userId);
+  return withZone;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { DiaryEntry, EntryRevision } from "@shared/schema";
+import { diffEntry, entryStateBeforeRevision } from "./revisions";
+import { MemStorage } from "./storage";
+
+const entry = {
+  id: 1,
+  userId: "alice",
+  caption: "Harbour at dusk",
+  imageUrl: null,
+  mediaId: "a".repeat(64),
+  photos: [{ mediaId: "a".repeat(64), caption: null }],
+  location: { lat: 38.7223, lng: -9.1393 },
+  place: null,
+  geohash: "eycs0p8uk",
+  screenInfo: { width: 390, height: 844, orientation: "portrait" },
+  capturedAt: null,
+  tripId: null,
+  createdAt: "2024-05-02T08:00:00.000Z",
+  updatedAt: null,
+  deletedAt: null,
+} as DiaryEntry;
+
+function revision(id: number, changes: EntryRevision["changes"]): EntryRevision {
+  return { id, entryId: entry.id, editedBy: "alice", changes, createdAt: "2024-05-02T09:00:00.000Z" };
+}
+
+describe("diffEntry", () => {
+  it("records the fields an update changes, from and to", () => {
+    const changes = diffEntry(entry, { caption: "Harbour at dawn", location: null });
+
+    expect(changes).toEqual({
+      caption: { from: "Harbour at dusk", to: "Harbour at dawn" },
+      location: { from: entry.location, to: null },
+    });
+  });
+
+  it("leaves out fields that are given but unchanged", () => {
+    const changes = diffEntry(entry, {
+      caption: "Harbour at dusk",
+      location: { lat: 38.7223, lng: -9.1393 },
+      photos: [{ mediaId: "a".repeat(64), caption: null }],
+    });
+
+    expect(changes).toEqual({});
+  });
+});
+
+describe("entryStateBeforeRevision", () => {
+  // Newest first, as storage lists them
+  const revisions = [
+    revision(3, { location: { from: { lat: 41.1579, lng: -8.6291 }, to: null } }),
+    revision(2, { caption: { from: "Harbour at dawn", to: "Harbour at noon" } }),
+    revision(1, { caption: { from: "Harbour at dusk", to: "Harbour at dawn" }, location: { from: entry.location, to: { lat: 41.1579, lng: -8.6291 } } }),
+  ];
+
+  it("undoes the revision and every later one", () => {
+    expect(entryStateBeforeRevision(revisions, 3)).toEqual({ location: { lat: 41.1579, lng: -8.6291 } });
+    expect(entryStateBeforeRevision(revisions, 2)).toEqual({ caption: "Harbour at dawn", location: { lat: 41.1579, lng: -8.6291 } });
+    expect(entryStateBeforeRevision(revisions, 1)).toEqual({ caption: "Harbour at dusk", location: entry.location });
+  });
+
+  it("returns undefined for a revision that isn't in the list", () => {
+    expect(entryStateBeforeRevision(revisions, 4)).toBeUndefined();
+  });
+});
+
+describe("restoring a revision", () => {
+  it("brings back the earlier values as a new revision that can be undone too", async () => {
+    const storage = new MemStorage();
+    const created = await storage.createEntry({ userId: "alice", caption: "Harbour at dusk", location: entry.location, screenInfo: entry.screenInfo });
+    await storage.updateEntry(created.id, { caption: "Harbour at dawn" }, "alice");
+    await storage.updateEntry(created.id, { location: null }, "alice");
+    const [, first] = await storage.getRevisionsByEntryId(created.id);
+
+    const previous = entryStateBeforeRevision(await storage.getRevisionsByEntryId(created.id), first.id);
+    const restored = await storage.updateEntry(created.id, previous!, "bob");
+
+    expect(restored).toMatchObject({ caption: "Harbour at dusk", location: entry.location });
+    const [latest] = await storage.getRevisionsByEntryId(created.id);
+    expect(latest).toMatchObject({
+      editedBy: "bob",
+      changes: {
+        caption: { from: "Harbour at dawn", to: "Harbour at dusk" },
+        location: { from: null, to: entry.location },
+      },
+    });
+  });
+});
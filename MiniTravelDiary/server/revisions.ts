@@ -0,0 +1,64 @@
+import {
+  revisionFields,
+  type DiaryEntry,
+  type EntryRevision,
+  type RevisionChanges,
+  type EntryFieldUpdates,
+} from "@shared/schema";
+import { photoMediaIds } from "./entry-photos";
+
+function isSameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Work out which tracked fields `updates` would actually change on `entry`.
+ * Returns an empty object when the update is a no-op.
+ */
+export function diffEntry(entry: DiaryEntry, updates: EntryFieldUpdates): RevisionChanges {
+  const changes: RevisionChanges = {};
+
+  for (const field of revisionFields) {
+    const value = updates[field];
+    if (value !== undefined && !isSameValue(entry[field], value)) {
+      (changes as Record<string, unknown>)[field] = { from: entry[field], to: value };
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The field values an entry had just before `revisionId` was made, found by
+ * undoing that revision and every later one. `revisions` must be newest first.
+ * Returns undefined if the revision is not in the list.
+ */
+export function entryStateBeforeRevision(
+  revisions: EntryRevision[],
+  revisionId: number,
+): EntryFieldUpdates | undefined {
+  const index = revisions.findIndex((revision) => revision.id === revisionId);
+  if (index === -1) {
+    return undefined;
+  }
+
+  const state: Record<string, unknown> = {};
+  for (const revision of revisions.slice(0, index + 1)) {
+    for (const [field, change] of Object.entries(revision.changes)) {
+      state[field] = change?.from;
+    }
+  }
+
+  return state as EntryFieldUpdates;
+}
+
+/**
+ * Media IDs of every photo `revision` changed from or to.
+ */
+export function revisionMediaIds(revision: EntryRevision) {
+  const { mediaId, photos } = revision.changes;
+  return [
+    ...photoMediaIds({ mediaId: mediaId?.from, photos: photos?.from }),
+    ...photoMediaIds({ mediaId: mediaId?.to, photos: photos?.to }),
+  ];
+}
@@ -0,0 +1,272 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import { maxMediaBytes } from "./media";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// Every bearer token signs in as the user it names
+vi.mock("@supabase/supabase-js", () => ({
+  createClient: () => ({
+    auth: {
+      getUser: async (token: string) => ({ data: { user: { id: token } }, error: null }),
+    },
+  }),
+}));
+
+const mediaId = "a".repeat(64);
+const screenInfo = { width: 390, height: 844, orientation: "portrait" };
+const app = express();
+app.use(express.json());
+
+function as(userId: string) {
+  return { Authorization: `Bearer ${userId}` };
+}
+
+async function createEntry(userId: string, body: Record<string, unknown> = {}) {
+  const res = await request(app)
+    .post("/api/entries")
+    .set(as(userId))
+    .send({ caption: "Harbour at dusk", mediaId, screenInfo, ...body });
+  expect(res.status).toBe(201);
+  return res.body;
+}
+
+beforeAll(async () => {
+  await registerRoutes(app);
+  await storage.createMedia({ id: mediaId, contentType: "image/jpeg", size: 1, uploadedBy: "alice" });
+});
+
+describe("without a token", () => {
+  it("rejects every entry route with 401", async () => {
+    const entry = await createEntry("alice");
+
+    expect((await request(app).get("/api/entries")).status).toBe(401);
+    expect((await request(app).get(`/api/entries/${entry.id}`)).status).toBe(401);
+    expect((await request(app).post("/api/entries").send({ caption: "Mine now", mediaId, screenInfo })).status).toBe(401);
+    expect((await request(app).patch(`/api/entries/${entry.id}`).send({ caption: "Mine now" })).status).toBe(401);
+    expect((await request(app).delete(`/api/entries/${entry.id}`)).status).toBe(401);
+    expect((await request(app).post(`/api/entries/${entry.id}/share-links`).send({})).status).toBe(401);
+  });
+});
+
+describe("another user's entry", () => {
+  let entryId: number;
+
+  beforeEach(async () => {
+    entryId = (await createEntry("alice")).id;
+  });
+
+  it("can't be read", async () => {
+    const res = await request(app).get(`/api/entries/${entryId}`).set(as("mallory"));
+
+    expect(res.status).toBe(403);
+    expect(res.body.caption).toBeUndefined();
+  });
+
+  it("isn't listed, even when asked for by userId", async () => {
+    const res = await request(app).get("/api/entries?userId=alice").set(as("mallory"));
+
+    expect(res.status).toBe(200);
+    expect(res.body.map((entry: { id: number }) => entry.id)).not.toContain(entryId);
+  });
+
+  it("can't be edited", async () => {
+    const res = await request(app).patch(`/api/entries/${entryId}`).set(as("mallory")).send({ caption: "Mine now" });
+
+    expect(res.status).toBe(403);
+    expect((await storage.getEntry(entryId))?.caption).toBe("Harbour at dusk");
+  });
+
+  it("can't be trashed", async () => {
+    const res = await request(app).delete(`/api/entries/${entryId}`).set(as("mallory"));
+
+    expect(res.status).toBe(403);
+    expect((await storage.getEntry(entryId))?.deletedAt).toBeNull();
+  });
+
+  it("can't be shared", async () => {
+    const res = await request(app).post(`/api/entries/${entryId}/share-links`).set(as("mallory")).send({});
+
+    expect(res.status).toBe(403);
+    expect(await storage.getShareLinksByEntryId(entryId)).toEqual([]);
+  });
+
+  it("can't have its share links listed or revoked", async () => {
+    const link = (await request(app).post(`/api/entries/${entryId}/share-links`).set(as("alice")).send({})).body;
+
+    expect((await request(app).get(`/api/entries/${entryId}/share-links`).set(as("mallory"))).status).toBe(403);
+    expect((await request(app).delete(`/api/entries/${entryId}/share-links/${link.id}`).set(as("mallory"))).status).toBe(403);
+    expect((await storage.getShareLink(link.id))?.revokedAt).toBeNull();
+  });
+
+  it("is still the owner's", async () => {
+    const res = await request(app).get(`/api/entries/${entryId}`).set(as("alice"));
+
+    expect(res.status).toBe(200);
+    expect(res.body.userId).toBe("alice");
+  });
+});
+
+describe("the userId a client sends", () => {
+  it("is ignored when creating an entry", async () => {
+    const entry = await createEntry("mallory", { userId: "alice" });
+
+    expect(entry.userId).toBe("mallory");
+    expect((await request(app).get(`/api/entries/${entry.id}`).set(as("alice"))).status).toBe(403);
+  });
+
+  it("can't move an entry to another user", async () => {
+    const entry = await createEntry("alice");
+    const res = await request(app).patch(`/api/entries/${entry.id}`).set(as("alice")).send({ userId: "mallory" });
+
+    expect(res.status).toBe(400);
+    expect((await storage.getEntry(entry.id))?.userId).toBe("alice");
+  });
+});
+
+describe("editing an entry", () => {
+  it("changes nothing when it names a trip that isn't the user's", async () => {
+    const entry = await createEntry("alice");
+    const trip = await storage.createTrip({ userId: "mallory", name: "Elsewhere", description: null, startDate: null, endDate: null });
+
+    const res = await request(app).patch(`/api/entries/${entry.id}`).set(as("alice")).send({ caption: "Moved", tripId: trip.id });
+
+    expect(res.status).toBe(400);
+    expect(await storage.getEntry(entry.id)).toMatchObject({ caption: "Harbour at dusk", tripId: null });
+  });
+
+  it("moves it to a trip along with the edit", async () => {
+    const entry = await createEntry("alice");
+    const trip = await storage.createTrip({ userId: "alice", name: "Lisbon", description: null, startDate: null, endDate: null });
+
+    const res = await request(app).patch(`/api/entries/${entry.id}`).set(as("alice")).send({ caption: "Moved", tripId: trip.id });
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ caption: "Moved", tripId: trip.id });
+  });
+});
+
+describe("an image over the size limit", () => {
+  it("is rejected with the same 413 whichever way it is uploaded", async () => {
+    const direct = await request(app)
+      .post("/api/media")
+      .set(as("alice"))
+      .set("Content-Type", "image/jpeg")
+      .send(Buffer.alloc(maxMediaBytes + 1));
+    const chunked = await request(app)
+      .post("/api/uploads")
+      .set(as("alice"))
+      .send({ contentType: "image/jpeg", size: maxMediaBytes + 1 });
+
+    expect(direct.status).toBe(413);
+    expect(direct.body.code).toBe("file_too_large");
+    expect(direct.body).toEqual(chunked.body);
+  });
+});
+
+describe("listing entries by area", () => {
+  let lisbon: number;
+  let cascais: number;
+  let porto: number;
+
+  beforeAll(async () => {
+    lisbon = (await createEntry("paula", { location: { lat: 38.7223, lng: -9.1393 } })).id;
+    cascais = (await createEntry("paula", { location: { lat: 38.6979, lng: -9.4215 } })).id;
+    porto = (await createEntry("paula", { location: { lat: 41.1579, lng: -8.6291 } })).id;
+    await createEntry("paula", { location: null });
+  });
+
+  async function listIds(query: string) {
+    const res = await request(app).get(`/api/entries?${query}`).set(as("paula"));
+    expect(res.status).toBe(200);
+    return res.body.map((entry: { id: number }) => entry.id).sort();
+  }
+
+  it("keeps entries within the radius of near", async () => {
+    expect(await listIds("near=38.7223,-9.1393&radiusKm=10")).toEqual([lisbon]);
+    expect(await listIds("near=38.7223,-9.1393&radiusKm=30")).toEqual([lisbon, cascais].sort());
+    expect(await listIds("near=38.7223,-9.1393&radiusKm=400")).toEqual([lisbon, cascais, porto].sort());
+  });
+
+  it("keeps entries inside the bbox", async () => {
+    expect(await listIds("bbox=-9.5,38.5,-9,39")).toEqual([lisbon, cascais].sort());
+    expect(await listIds("bbox=-9.3,38.5,-9,39")).toEqual([lisbon]);
+    expect(await listIds("bbox=0,0,10,10")).toEqual([]);
+  });
+
+  it("rejects filters that don't make sense", async () => {
+    const query = async (query: string) => (await request(app).get(`/api/entries?${query}`).set(as("paula"))).status;
+
+    expect(await query("near=38.7,-9.1")).toBe(400);
+    expect(await query("near=95,-9.1&radiusKm=10")).toBe(400);
+    expect(await query("bbox=-9.5,39,-9,38.5")).toBe(400);
+    expect(await query("near=38.7,-9.1&radiusKm=10&bbox=-9.5,38.5,-9,39")).toBe(400);
+  });
+});
+
+describe("an id that isn't a number", () => {
+  it("is rejected with 400 when removing a privacy zone", async () => {
+    const res = await request(app).delete("/api/privacy-zones/home").set(as("alice"));
+
+    expect(res.status).toBe(400);
+  });
+
+  it("is rejected with 400 when accepting a journey suggestion", async () => {
+    const res = await request(app).post("/api/journey-suggestions/paris/accept").set(as("alice")).send({ name: "Paris" });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe("journey suggestions", () => {
+  it("include entries made since they were last listed", async () => {
+    expect((await request(app).get("/api/journey-suggestions").set(as("bob"))).body).toEqual([]);
+
+    const first = await createEntry("bob", { capturedAt: "2024-05-01T10:00:00" });
+    const second = await createEntry("bob", { capturedAt: "2024-05-02T10:00:00" });
+    const res = await request(app).get("/api/journey-suggestions").set(as("bob"));
+
+    expect(res.status).toBe(200);
+    expect(res.body).toHaveLength(1);
+    expect(res.body[0].entryIds).toEqual([first.id, second.id]);
+  });
+
+  it("turn into a trip only once when accepted", async () => {
+    await createEntry("lena", { capturedAt: "2024-06-01T10:00:00" });
+    await createEntry("lena", { capturedAt: "2024-06-02T10:00:00" });
+    const [suggestion] = (await request(app).get("/api/journey-suggestions").set(as("lena"))).body;
+
+    const accepted = await request(app).post(`/api/journey-suggestions/${suggestion.id}/accept`).set(as("lena")).send({});
+    const again = await request(app).post(`/api/journey-suggestions/${suggestion.id}/accept`).set(as("lena")).send({});
+
+    expect(accepted.status).toBe(201);
+    expect(again.status).toBe(404);
+    expect(await storage.getTripsByUserId("lena")).toHaveLength(1);
+    expect(await storage.getEntriesByTripId(accepted.body.id)).toHaveLength(2);
+  });
+});
+
+describe("purging an entry from the trash", () => {
+  it("deletes its photo once nothing else uses it", async () => {
+    const photoId = "b".repeat(64);
+    await storage.createMedia({ id: photoId, contentType: "image/jpeg", size: 1, uploadedBy: "judy" });
+    const entry = await createEntry("judy", { mediaId: photoId });
+    await request(app).delete(`/api/entries/${entry.id}`).set(as("judy"));
+
+    const res = await request(app).delete(`/api/trash/${entry.id}`).set(as("judy"));
+
+    expect(res.status).toBe(200);
+    expect(await storage.getMedia(photoId)).toBeUndefined();
+    expect((await request(app).get(`/api/media/${photoId}`)).status).toBe(404);
+  });
+
+  it("keeps a photo another entry still uses", async () => {
+    const entry = await createEntry("judy");
+    await request(app).delete(`/api/entries/${entry.id}`).set(as("judy"));
+
+    await request(app).delete(`/api/trash/${entry.id}`).set(as("judy"));
+
+    expect(await storage.getMedia(mediaId)).toBeDefined();
+  });
+});
@@ -1,10 +1,114 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
-import { insertEntrySchema } from "@shared/schema";
+import {
+  acceptJourneySuggestionSchema,
+  allowedImageTypes,
+  createUploadSchema,
+  entriesQuerySchema,
+  imageVariantNames,
+  insertEntrySchema,
+  insertPrivacyZoneSchema,
+  insertShareLinkSchema,
+  insertTripSchema,
+  mergeJourneySuggestionsSchema,
+  splitJourneySuggestionSchema,
+  updateEntrySchema,
+  updateTripSchema,
+  type DiaryEntry,
+  type ShareLink,
+  type ShareLinkSummary,
+  type SharedEntry,
+  type Upload,
+} from "@shared/schema";
+import { distanceMeters } from "@shared/geo";
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
+import { hashPassphrase, verifyPassphrase } from "./passphrase";
+import {
+  getMediaVariant,
+  isMediaId,
+  maxMediaBytes,
+  mediaStore,
+  saveMedia,
+  withImageVariant,
+  withImageVariants,
+} from "./media";
+import { ImageValidationError, sniffImageType } from "./images";
+import { entryStateBeforeRevision } from "./revisions";
+import { toSharedEntry } from "./share-privacy";
+import { withPrivacyZone, withPrivacyZones } from "./privacy-zones";
+import { applyPhotoUpdates, photoMediaIds } from "./entry-photos";
+import { searchPlaces, withPlace } from "./gazetteer";
+import { boundsAround } from "./geohash";
+import { purgeEntry, trashRetentionDays } from "./trash";
+import { isTripPhoto, sortChronologically, takenAt, toTripSummaries, toTripSummary } from "./trips";
+import {
+  getUngroupedEntries,
+  nameJourney,
+  refreshJourneySuggestions,
+  suggestedEntries,
+  toJourneySuggestionSummaries,
+} from "./journeys";
+import {
+  cancelUpload,
+  chunkChecksum,
+  completeUpload,
+  parseChunkChecksum,
+  startUpload,
+  toUploadStatus,
+  uploadChunkBytes,
+  writeUploadChunk,
+} from "./uploads";
+
+function isAllowedImageType(contentType: string | undefined): boolean {
+  return allowedImageTypes.some((type) => type === contentType);
+}
+
+// The structured 4xx body for an upload that failed image validation
+function imageErrorBody(error: ImageValidationError) {
+  return { message: error.message, code: error.code };
+}
+
+function fileTooLargeBody() {
+  return { message: `Images can be at most ${maxMediaBytes} bytes`, code: 'file_too_large' };
+}
+
+// express.raw() for an image body, answering one over the size limit with
+// the same 413 as POST /api/uploads rather than leaving it to the generic
+// error handler
+function rawImageBody() {
+  const parse = express.raw({ type: 'image/*', limit: maxMediaBytes });
+  return (req: any, res: any, next: any) => parse(req, res, (error?: any) => {
+    if (error?.type === 'entity.too.large') {
+      return res.status(413).json(fileTooLargeBody());
+    }
+    next(error);
+  });
+}
+
+// Whether every one of `ids` has been uploaded to the media store
+async function allMediaExists(ids: string[]) {
+  return (await storage.getMediaByIds(ids)).length === ids.length;
+}
+
+// Whether `tripId` names one of `userId`'s trips, so an entry may join it
+async function isOwnTrip(tripId: number, userId: string) {
+  const trip = await storage.getTrip(tripId);
+  return trip?.userId === userId;
+}
+
+function toShareLinkSummary(link: ShareLink): ShareLinkSummary {
+  const { passphraseHash, ...summary } = link;
+  const isExpired = !!link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now();
+  
+  return {
+    ...summary,
+    hasPassphrase: !!passphraseHash,
+    isActive: !link.revokedAt && !isExpired,
+  };
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Create Supabase client
@@ -47,22 +151,368 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   };
 
-  // Get all entries for a user
-  app.get('/api/entries', async (req, res) => {
+  // Load the entry named by req.params.id, responding with an error unless it
+  // exists and belongs to the authenticated user. Trashed entries are treated
+  // as missing unless the route works on the trash.
+  const getOwnedEntry = async (
+    req: any,
+    res: any,
+    { trashed = false }: { trashed?: boolean } = {},
+  ): Promise<DiaryEntry | undefined> => {
+    const entryId = parseInt(req.params.id);
+    
+    if (isNaN(entryId)) {
+      res.status(400).json({ message: 'Invalid entry ID' });
+      return undefined;
+    }
+    
+    const entry = await storage.getEntry(entryId);
+    
+    if (!entry) {
+      res.status(404).json({ message: 'Entry not found' });
+      return undefined;
+    }
+    
+    if (entry.userId !== req.user.id) {
+      res.status(403).json({ message: 'You do not have access to this entry' });
+      return undefined;
+    }
+    
+    if (!!entry.deletedAt !== trashed) {
+      res.status(404).json({ message: trashed ? 'Entry is not in the trash' : 'Entry not found' });
+      return undefined;
+    }
+    
+    return entry;
+  };
+
+  // Load the trip named by req.params.id, responding with an error unless it
+  // exists and belongs to the authenticated user
+  const getOwnedTrip = async (req: any, res: any) => {
+    const tripId = parseInt(req.params.id);
+    
+    if (isNaN(tripId)) {
+      res.status(400).json({ message: 'Invalid trip ID' });
+      return undefined;
+    }
+    
+    const trip = await storage.getTrip(tripId);
+    
+    if (!trip || trip.userId !== req.user.id) {
+      res.status(404).json({ message: 'Trip not found' });
+      return undefined;
+    }
+    
+    return trip;
+  };
+
+  // Load the journey suggestion named by req.params.id, responding with an
+  // error unless it exists and belongs to the authenticated user
+  const getOwnedJourneySuggestion = async (req: any, res: any) => {
+    const suggestionId = parseInt(req.params.id);
+    
+    if (isNaN(suggestionId)) {
+      res.status(400).json({ message: 'Invalid suggestion ID' });
+      return undefined;
+    }
+    
+    const suggestion = await storage.getJourneySuggestion(suggestionId);
+    
+    if (!suggestion || suggestion.userId !== req.user.id) {
+      res.status(404).json({ message: 'Suggestion not found' });
+      return undefined;
+    }
+    
+    return suggestion;
+  };
+
+  // Upload an image, sent as the raw request body with its image Content-Type
+  app.post('/api/media', requireAuth, rawImageBody(), async (req: any, res) => {
     try {
-      // For simplicity, we'll assume the user ID is passed as a query parameter
-      // In a real app, you'd get this from the authenticated session
-      const userId = req.query.userId as string;
+      const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
       
-      console.log('Getting entries for userId:', userId);
+      if (!isAllowedImageType(contentType)) {
+        return res.status(415).json({ 
+          message: `Unsupported image type, expected one of ${allowedImageTypes.join(', ')}`,
+          code: 'unsupported_type'
+        });
+      }
+      
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: 'Image data is required', code: 'missing_image' });
+      }
+      
+      const record = await saveMedia(req.body, contentType, req.user.id);
+      res.status(201).json(record);
+    } catch (error) {
+      if (error instanceof ImageValidationError) {
+        return res.status(error.status).json(imageErrorBody(error));
+      }
+      console.error('Error uploading media:', error);
+      res.status(500).json({ message: 'Failed to upload image' });
+    }
+  });
+
+  // Serve an image. This is public so <img> tags can load it; the id is the
+  // sha256 of the image, so it can only be requested by someone who was given it.
+  app.get('/api/media/:id', async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      if (!isMediaId(id)) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+      
+      const etag = `"${id}"`;
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
+      }
+      
+      const record = await storage.getMedia(id);
+      const data = record && await mediaStore.get(id);
+      
+      if (!record || !data) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+      
+      // Content never changes for a given hash, so it can be cached forever
+      res.set({
+        'Content-Type': record.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'ETag': etag,
+        'X-Content-Type-Options': 'nosniff',
+      });
+      res.send(data);
+    } catch (error) {
+      console.error('Error serving media:', error);
+      res.status(500).json({ message: 'Failed to fetch image' });
+    }
+  });
+
+  // Serve a resized variant of an image, e.g. /api/media/<id>/thumb.webp
+  app.get('/api/media/:id/:variant.:format', async (req, res) => {
+    try {
+      const { id, variant, format } = req.params;
+      const variantName = imageVariantNames.find((name) => name === variant);
+      
+      if (!isMediaId(id) || !variantName) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+      
+      const etag = `"${id}-${variant}.${format}"`;
+      if (req.headers['if-none-match'] === etag) {
+        return res.status(304).end();
+      }
+      
+      const record = await storage.getMedia(id);
+      const image = record && await getMediaVariant(record, variantName, format);
+      
+      if (!image) {
+        return res.status(404).json({ message: 'Image not found' });
+      }
+      
+      res.set({
+        'Content-Type': image.contentType,
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'ETag': etag,
+        'X-Content-Type-Options': 'nosniff',
+      });
+      res.send(image.data);
+    } catch (error) {
+      console.error('Error serving media variant:', error);
+      res.status(500).json({ message: 'Failed to fetch image' });
+    }
+  });
+
+  // Load the upload named by req.params.id if it belongs to the caller
+  const getOwnedUpload = async (req: any, res: any): Promise<Upload | undefined> => {
+    const upload = await storage.getUpload(req.params.id);
+    
+    if (!upload || upload.userId !== req.user.id) {
+      res.status(404).json({ message: 'Upload not found' });
+      return undefined;
+    }
+    
+    return upload;
+  };
+
+  // Start a resumable upload. The image is then sent in chunks with
+  // PATCH /api/uploads/:id, each no larger than the returned chunkSize.
+  app.post('/api/uploads', requireAuth, async (req: any, res) => {
+    try {
+      const validationResult = createUploadSchema.safeParse(req.body);
       
-      if (!userId) {
-        return res.status(400).json({ message: 'User ID is required' });
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid upload data', 
+          errors: validationResult.error.errors 
+        });
       }
       
-      const entries = await storage.getEntriesByUserId(userId);
+      const { contentType, size } = validationResult.data;
+      
+      if (!isAllowedImageType(contentType)) {
+        return res.status(415).json({ 
+          message: `Unsupported image type, expected one of ${allowedImageTypes.join(', ')}`,
+          code: 'unsupported_type'
+        });
+      }
+      
+      if (size > maxMediaBytes) {
+        return res.status(413).json(fileTooLargeBody());
+      }
+      
+      const upload = await startUpload(req.user.id, contentType, size);
+      res.status(201).json(toUploadStatus(upload));
+    } catch (error) {
+      console.error('Error starting upload:', error);
+      res.status(500).json({ message: 'Failed to start upload' });
+    }
+  });
+
+  // How much of an upload the server has, so the client knows where to resume
+  app.get('/api/uploads/:id', requireAuth, async (req: any, res) => {
+    try {
+      const upload = await getOwnedUpload(req, res);
+      
+      if (!upload) {
+        return;
+      }
+      
+      res.json(toUploadStatus(upload));
+    } catch (error) {
+      console.error('Error getting upload:', error);
+      res.status(500).json({ message: 'Failed to fetch upload' });
+    }
+  });
+
+  // Send the next chunk of an upload. Upload-Offset must match what the
+  // server has received so far, and Upload-Checksum carries the chunk's
+  // sha256 as "sha256 <base64>". The final chunk responds with the media.
+  app.patch(
+    '/api/uploads/:id',
+    requireAuth,
+    express.raw({ type: 'application/offset+octet-stream', limit: uploadChunkBytes }),
+    async (req: any, res) => {
+      try {
+        const upload = await getOwnedUpload(req, res);
+        
+        if (!upload) {
+          return;
+        }
+        
+        const offset = parseInt(req.get('Upload-Offset') ?? '');
+        
+        if (offset !== upload.received) {
+          return res.status(409).json({ 
+            message: 'Upload-Offset does not match the data received so far', 
+            received: upload.received 
+          });
+        }
+        
+        const data: Buffer = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+        
+        if (data.length === 0 || upload.received + data.length > upload.size) {
+          return res.status(400).json({ message: 'Chunk is empty or runs past the end of the upload' });
+        }
+        
+        const checksum = parseChunkChecksum(req.get('Upload-Checksum'));
+        
+        if (!checksum) {
+          return res.status(400).json({ message: 'Upload-Checksum with a sha256 digest is required' });
+        }
+        
+        if (checksum !== chunkChecksum(data)) {
+          return res.status(422).json({ message: 'Chunk checksum mismatch, resend the chunk' });
+        }
+        
+        // Catch a mislabelled file on its first chunk rather than after the whole upload
+        if (upload.received === 0 && sniffImageType(data) !== upload.contentType) {
+          await cancelUpload(upload);
+          return res.status(415).json({ 
+            message: `File is not a ${upload.contentType} image`,
+            code: 'type_mismatch'
+          });
+        }
+        
+        const updatedUpload = await writeUploadChunk(upload, data);
+        
+        if (!updatedUpload) {
+          const current = await storage.getUpload(upload.id);
+          return res.status(409).json({ 
+            message: 'Chunk was already received', 
+            received: current?.received ?? upload.size 
+          });
+        }
+        
+        if (updatedUpload.received < updatedUpload.size) {
+          return res.json(toUploadStatus(updatedUpload));
+        }
+        
+        try {
+          const media = await completeUpload(updatedUpload);
+          res.status(201).json(toUploadStatus(updatedUpload, media));
+        } catch (error) {
+          if (!(error instanceof ImageValidationError)) {
+            throw error;
+          }
+          await cancelUpload(updatedUpload);
+          res.status(error.status).json(imageErrorBody(error));
+        }
+      } catch (error) {
+        console.error('Error receiving upload chunk:', error);
+        res.status(500).json({ message: 'Failed to receive chunk' });
+      }
+    },
+  );
+
+  // Abandon an upload
+  app.delete('/api/uploads/:id', requireAuth, async (req: any, res) => {
+    try {
+      const upload = await getOwnedUpload(req, res);
+      
+      if (!upload) {
+        return;
+      }
+      
+      await cancelUpload(upload);
+      res.status(200).json({ message: 'Upload cancelled' });
+    } catch (error) {
+      console.error('Error cancelling upload:', error);
+      res.status(500).json({ message: 'Failed to cancel upload' });
+    }
+  });
+
+  // Get the authenticated user's entries: all of them, those within radiusKm
+  // of near=lat,lng, or those inside bbox=west,south,east,north
+  app.get('/api/entries', requireAuth, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const validationResult = entriesQuerySchema.safeParse(req.query);
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid entry filters', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      console.log('Getting entries for userId:', userId);
+      
+      const { near, radiusKm, bbox } = validationResult.data;
+      let entries: DiaryEntry[];
+      if (near && radiusKm !== undefined) {
+        const center = { lat: near[0], lng: near[1] };
+        entries = (await storage.getEntriesInBounds(userId, boundsAround(center, radiusKm)))
+          .filter((entry) => entry.location && distanceMeters(center, entry.location) <= radiusKm * 1000);
+      } else if (bbox) {
+        const [west, south, east, north] = bbox;
+        entries = await storage.getEntriesInBounds(userId, { south, west, north, east });
+      } else {
+        entries = await storage.getEntriesByUserId(userId);
+      }
       console.log(`Found ${entries.length} entries for user ${userId}`);
-      res.json(entries);
+      res.json(await withPrivacyZones(await withImageVariants(entries), userId));
     } catch (error) {
       console.error('Error getting entries:', error);
       res.status(500).json({ message: 'Failed to fetch entries' });
@@ -70,21 +520,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get a specific entry
-  app.get('/api/entries/:id', async (req, res) => {
+  app.get('/api/entries/:id', requireAuth, async (req: any, res) => {
     try {
-      const entryId = parseInt(req.params.id);
-      
-      if (isNaN(entryId)) {
-        return res.status(400).json({ message: 'Invalid entry ID' });
-      }
-      
-      const entry = await storage.getEntry(entryId);
+      const entry = await getOwnedEntry(req, res);
       
       if (!entry) {
-        return res.status(404).json({ message: 'Entry not found' });
+        return;
       }
       
-      res.json(entry);
+      res.json(await withPrivacyZone(await withImageVariant(entry), req.user.id));
     } catch (error) {
       console.error('Error getting entry:', error);
       res.status(500).json({ message: 'Failed to fetch entry' });
@@ -92,17 +536,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a new entry
-  app.post('/api/entries', async (req, res) => {
+  app.post('/api/entries', requireAuth, async (req: any, res) => {
     try {
       console.log('Received entry creation request:', req.body);
       
-      // Check if userId is provided
-      if (!req.body.userId) {
-        return res.status(400).json({ message: 'User ID is required' });
-      }
-      
-      // Validate request body
-      const validationResult = insertEntrySchema.safeParse(req.body);
+      // Validate request body, always attributing the entry to the caller
+      const validationResult = insertEntrySchema.safeParse({
+        ...req.body,
+        userId: req.user.id,
+      });
       
       if (!validationResult.success) {
         console.error('Validation error:', validationResult.error.errors);
@@ -123,81 +565,607 @@ export async function registerRoutes(app: Express): Promise<Server> {
         entryData.caption = 'My travel moment';
       }
 
+      if (!(await allMediaExists(photoMediaIds(entryData)))) {
+        return res.status(400).json({ message: 'Unknown media ID, upload the image first', code: 'unknown_media' });
+      }
+
+      if (entryData.tripId && !(await isOwnTrip(entryData.tripId, req.user.id))) {
+        return res.status(400).json({ message: 'Trip not found', code: 'unknown_trip' });
+      }
+
       console.log('Final entry data before storage:', {
         userId: entryData.userId,
         caption: entryData.caption,
-        imageUrl: entryData.imageUrl,
+        mediaId: entryData.mediaId,
         hasLocation: !!entryData.location,
         hasScreenInfo: !!entryData.screenInfo
       });
       
       // Create entry in storage
-      const newEntry = await storage.createEntry(entryData);
+      const newEntry = await storage.createEntry(withPlace(entryData));
       
       console.log('Entry created successfully:', newEntry);
-      res.status(201).json(newEntry);
+      res.status(201).json(await withPrivacyZone(await withImageVariant(newEntry), req.user.id));
     } catch (error) {
       console.error('Error creating entry:', error);
       res.status(500).json({ message: 'Failed to create entry' });
     }
   });
 
-  // Delete an entry
-  app.delete('/api/entries/:id', async (req, res) => {
+  // Update an entry's caption, location or image
+  app.patch('/api/entries/:id', requireAuth, async (req: any, res) => {
     try {
-      const entryId = parseInt(req.params.id);
+      // Check if entry exists and belongs to the caller
+      const entry = await getOwnedEntry(req, res);
       
-      if (isNaN(entryId)) {
-        return res.status(400).json({ message: 'Invalid entry ID' });
+      if (!entry) {
+        return;
       }
       
-      // Check if entry exists
-      const entry = await storage.getEntry(entryId);
+      const validationResult = updateEntrySchema.safeParse(req.body ?? {});
       
-      if (!entry) {
+      if (!validationResult.success) {
+        console.error('Validation error:', validationResult.error.errors);
+        return res.status(400).json({ 
+          message: 'Invalid entry data', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      // Moving an entry between trips only files it differently, so it isn't
+      // recorded in the entry's edit history
+      const { tripId, ...fieldUpdates } = validationResult.data;
+      const updates = applyPhotoUpdates(entry, withPlace(fieldUpdates));
+      
+      if (!(await allMediaExists(photoMediaIds({ mediaId: updates.mediaId, photos: updates.photos })))) {
+        return res.status(400).json({ message: 'Unknown media ID, upload the image first', code: 'unknown_media' });
+      }
+      
+      if (tripId && !(await isOwnTrip(tripId, req.user.id))) {
+        return res.status(400).json({ message: 'Trip not found', code: 'unknown_trip' });
+      }
+      
+      // The trip is written along with the other fields, so a failed update
+      // never leaves the entry moved but otherwise unchanged
+      const updatedEntry = await storage.updateEntry(entry.id, updates, req.user.id, tripId);
+      
+      if (!updatedEntry) {
         return res.status(404).json({ message: 'Entry not found' });
       }
       
-      // Delete entry
-      await storage.deleteEntry(entryId);
+      res.json(await withPrivacyZone(await withImageVariant(updatedEntry), req.user.id));
+    } catch (error) {
+      console.error('Error updating entry:', error);
+      res.status(500).json({ message: 'Failed to update entry' });
+    }
+  });
+
+  // List an entry's edit history, newest first
+  app.get('/api/entries/:id/revisions', requireAuth, async (req: any, res) => {
+    try {
+      const entry = await getOwnedEntry(req, res);
+      
+      if (!entry) {
+        return;
+      }
       
-      res.status(200).json({ message: 'Entry deleted successfully' });
+      const revisions = await storage.getRevisionsByEntryId(entry.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error('Error getting revisions:', error);
+      res.status(500).json({ message: 'Failed to fetch revisions' });
+    }
+  });
+
+  // Restore an entry to how it was just before the given revision. The
+  // restore is itself recorded as a new revision, so it can be undone too.
+  app.post('/api/entries/:id/revisions/:revisionId/restore', requireAuth, async (req: any, res) => {
+    try {
+      const entry = await getOwnedEntry(req, res);
+      
+      if (!entry) {
+        return;
+      }
+      
+      const revisions = await storage.getRevisionsByEntryId(entry.id);
+      const previousState = entryStateBeforeRevision(revisions, parseInt(req.params.revisionId));
+      
+      if (!previousState) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+      
+      // Revisions from before places were tracked only record the location
+      const restoredEntry = await storage.updateEntry(entry.id, withPlace(previousState), req.user.id);
+      res.json(restoredEntry && await withPrivacyZone(await withImageVariant(restoredEntry), req.user.id));
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      res.status(500).json({ message: 'Failed to restore revision' });
+    }
+  });
+
+  // Move an entry to the trash
+  app.delete('/api/entries/:id', requireAuth, async (req: any, res) => {
+    try {
+      // Check if entry exists and belongs to the caller
+      const entry = await getOwnedEntry(req, res);
+      
+      if (!entry) {
+        return;
+      }
+      
+      await storage.trashEntry(entry.id);
+      
+      res.status(200).json({ 
+        message: 'Entry moved to trash',
+        retentionDays: trashRetentionDays
+      });
     } catch (error) {
       console.error('Error deleting entry:', error);
       res.status(500).json({ message: 'Failed to delete entry' });
     }
   });
+
+  // List the authenticated user's trashed entries
+  app.get('/api/trash', requireAuth, async (req: any, res) => {
+    try {
+      const entries = await storage.getTrashedEntriesByUserId(req.user.id);
+      res.json({ entries: await withImageVariants(entries), retentionDays: trashRetentionDays });
+    } catch (error) {
+      console.error('Error getting trash:', error);
+      res.status(500).json({ message: 'Failed to fetch trash' });
+    }
+  });
+
+  // Take an entry back out of the trash
+  app.post('/api/trash/:id/restore', requireAuth, async (req: any, res) => {
+    try {
+      const entry = await getOwnedEntry(req, res, { trashed: true });
+      
+      if (!entry) {
+        return;
+      }
+      
+      const restoredEntry = await storage.restoreEntry(entry.id);
+      res.json(restoredEntry && await withPrivacyZone(await withImageVariant(restoredEntry), req.user.id));
+    } catch (error) {
+      console.error('Error restoring entry:', error);
+      res.status(500).json({ message: 'Failed to restore entry' });
+    }
+  });
+
+  // Permanently delete a trashed entry
+  app.delete('/api/trash/:id', requireAuth, async (req: any, res) => {
+    try {
+      const entry = await getOwnedEntry(req, res, { trashed: true });
+      
+      if (!entry) {
+        return;
+      }
+      
+      await purgeEntry(entry);
+      res.status(200).json({ message: 'Entry permanently deleted' });
+    } catch (error) {
+      console.error('Error purging entry:', error);
+      res.status(500).json({ message: 'Failed to permanently delete entry' });
+    }
+  });
+  
+  // List the authenticated user's privacy zones
+  app.get('/api/privacy-zones', requireAuth, async (req: any, res) => {
+    try {
+      const zones = await storage.getPrivacyZonesByUserId(req.user.id);
+      res.json(zones);
+    } catch (error) {
+      console.error('Error getting privacy zones:', error);
+      res.status(500).json({ message: 'Failed to fetch privacy zones' });
+    }
+  });
+
+  // Add a privacy zone; entries inside it stop revealing their location
+  app.post('/api/privacy-zones', requireAuth, async (req: any, res) => {
+    try {
+      const validationResult = insertPrivacyZoneSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid privacy zone', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const zone = await storage.createPrivacyZone({ ...validationResult.data, userId: req.user.id });
+      res.status(201).json(zone);
+    } catch (error) {
+      console.error('Error creating privacy zone:', error);
+      res.status(500).json({ message: 'Failed to create privacy zone' });
+    }
+  });
+
+  // Remove a privacy zone
+  app.delete('/api/privacy-zones/:id', requireAuth, async (req: any, res) => {
+    try {
+      const zoneId = parseInt(req.params.id);
+      
+      if (isNaN(zoneId)) {
+        return res.status(400).json({ message: 'Invalid privacy zone ID' });
+      }
+      
+      const zone = await storage.getPrivacyZone(zoneId);
+      
+      if (!zone || zone.userId !== req.user.id) {
+        return res.status(404).json({ message: 'Privacy zone not found' });
+      }
+      
+      await storage.deletePrivacyZone(zone.id);
+      res.status(200).json({ message: 'Privacy zone removed' });
+    } catch (error) {
+      console.error('Error deleting privacy zone:', error);
+      res.status(500).json({ message: 'Failed to remove privacy zone' });
+    }
+  });
+  
+  // Find places by name for the place picker, from the bundled gazetteer
+  app.get('/api/places', requireAuth, async (req: any, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      res.json(query.length < 2 ? [] : searchPlaces(query));
+    } catch (error) {
+      console.error('Error searching places:', error);
+      res.status(500).json({ message: 'Failed to search places' });
+    }
+  });
+
+  // List the authenticated user's trips, newest first
+  app.get('/api/trips', requireAuth, async (req: any, res) => {
+    try {
+      const trips = await storage.getTripsByUserId(req.user.id);
+      const entries = await storage.getEntriesByUserId(req.user.id);
+      res.json(await toTripSummaries(trips, entries));
+    } catch (error) {
+      console.error('Error getting trips:', error);
+      res.status(500).json({ message: 'Failed to fetch trips' });
+    }
+  });
+
+  // Start a new trip
+  app.post('/api/trips', requireAuth, async (req: any, res) => {
+    try {
+      const validationResult = insertTripSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid trip', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const { name, description, startDate, endDate } = validationResult.data;
+      const trip = await storage.createTrip({
+        userId: req.user.id,
+        name,
+        description,
+        startDate: startDate ?? null,
+        endDate: endDate ?? null,
+      });
+      res.status(201).json(await toTripSummary(trip, []));
+    } catch (error) {
+      console.error('Error creating trip:', error);
+      res.status(500).json({ message: 'Failed to create trip' });
+    }
+  });
+
+  // Get a trip along with its entries, in the order they were taken
+  app.get('/api/trips/:id', requireAuth, async (req: any, res) => {
+    try {
+      const trip = await getOwnedTrip(req, res);
+      
+      if (!trip) {
+        return;
+      }
+      
+      const entries = sortChronologically(await storage.getEntriesByTripId(trip.id));
+      res.json({
+        trip: await toTripSummary(trip, entries),
+        entries: await withPrivacyZones(await withImageVariants(entries), req.user.id),
+      });
+    } catch (error) {
+      console.error('Error getting trip:', error);
+      res.status(500).json({ message: 'Failed to fetch trip' });
+    }
+  });
+
+  // Rename a trip or change its dates, description or cover photo
+  app.patch('/api/trips/:id', requireAuth, async (req: any, res) => {
+    try {
+      const trip = await getOwnedTrip(req, res);
+      
+      if (!trip) {
+        return;
+      }
+      
+      const validationResult = updateTripSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid trip', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const updates = validationResult.data;
+      const startDate = updates.startDate !== undefined ? updates.startDate : trip.startDate;
+      const endDate = updates.endDate !== undefined ? updates.endDate : trip.endDate;
+      
+      if (startDate && endDate && startDate > endDate) {
+        return res.status(400).json({ message: 'The trip cannot end before it starts', code: 'invalid_dates' });
+      }
+      
+      const entries = await storage.getEntriesByTripId(trip.id);
+      
+      if (updates.coverMediaId && !isTripPhoto(updates.coverMediaId, entries)) {
+        return res.status(400).json({ message: 'The cover must be a photo from the trip', code: 'invalid_cover' });
+      }
+      
+      const updatedTrip = await storage.updateTrip(trip.id, updates);
+      
+      if (!updatedTrip) {
+        return res.status(404).json({ message: 'Trip not found' });
+      }
+      
+      res.json(await toTripSummary(updatedTrip, entries));
+    } catch (error) {
+      console.error('Error updating trip:', error);
+      res.status(500).json({ message: 'Failed to update trip' });
+    }
+  });
+
+  // Delete a trip; its entries stay in the diary
+  app.delete('/api/trips/:id', requireAuth, async (req: any, res) => {
+    try {
+      const trip = await getOwnedTrip(req, res);
+      
+      if (!trip) {
+        return;
+      }
+      
+      await storage.deleteTrip(trip.id);
+      res.status(200).json({ message: 'Trip deleted' });
+    } catch (error) {
+      console.error('Error deleting trip:', error);
+      res.status(500).json({ message: 'Failed to delete trip' });
+    }
+  });
+  
+  // List the journeys proposed from the authenticated user's ungrouped entries,
+  // brought up to date first so entries added or edited since are included
+  app.get('/api/journey-suggestions', requireAuth, async (req: any, res) => {
+    try {
+      await refreshJourneySuggestions(req.user.id);
+      const suggestions = await storage.getJourneySuggestionsByUserId(req.user.id);
+      const entries = await getUngroupedEntries(req.user.id);
+      res.json(await toJourneySuggestionSummaries(suggestions, entries, req.user.id));
+    } catch (error) {
+      console.error('Error getting journey suggestions:', error);
+      res.status(500).json({ message: 'Failed to fetch journey suggestions' });
+    }
+  });
+
+  // Turn a suggestion into a trip holding its entries
+  app.post('/api/journey-suggestions/:id/accept', requireAuth, async (req: any, res) => {
+    try {
+      const suggestion = await getOwnedJourneySuggestion(req, res);
+      
+      if (!suggestion) {
+        return;
+      }
+      
+      const validationResult = acceptJourneySuggestionSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid trip', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const entries = suggestedEntries(suggestion, await getUngroupedEntries(req.user.id));
+      
+      if (entries.length === 0) {
+        await storage.deleteJourneySuggestion(suggestion.id);
+        return res.status(404).json({ message: 'Suggestion not found' });
+      }
+      
+      // Creating the trip, filing the entries and dropping the suggestion
+      // happen together, so a suggestion can't be half accepted
+      const trip = await storage.acceptJourneySuggestion(suggestion.id, {
+        userId: req.user.id,
+        name: validationResult.data.name ?? suggestion.name,
+        description: null,
+        startDate: takenAt(entries[0]).slice(0, 10),
+        endDate: takenAt(entries[entries.length - 1]).slice(0, 10),
+      }, entries.map((entry) => entry.id));
+      
+      if (!trip) {
+        return res.status(404).json({ message: 'Suggestion not found' });
+      }
+      
+      res.status(201).json(await toTripSummary(trip, await storage.getEntriesByTripId(trip.id)));
+    } catch (error) {
+      console.error('Error accepting journey suggestion:', error);
+      res.status(500).json({ message: 'Failed to accept journey suggestion' });
+    }
+  });
+
+  // Fold another suggestion into this one
+  app.post('/api/journey-suggestions/:id/merge', requireAuth, async (req: any, res) => {
+    try {
+      const suggestion = await getOwnedJourneySuggestion(req, res);
+      
+      if (!suggestion) {
+        return;
+      }
+      
+      const validationResult = mergeJourneySuggestionsSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid merge', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const other = await storage.getJourneySuggestion(validationResult.data.suggestionId);
+      
+      if (!other || other.userId !== req.user.id || other.id === suggestion.id) {
+        return res.status(400).json({ message: 'Pick another of your suggestions to merge', code: 'unknown_suggestion' });
+      }
+      
+      const ungrouped = await getUngroupedEntries(req.user.id);
+      const entries = sortChronologically([
+        ...suggestedEntries(suggestion, ungrouped),
+        ...suggestedEntries(other, ungrouped),
+      ]);
+      
+      await storage.deleteJourneySuggestion(other.id);
+      
+      if (entries.length === 0) {
+        await storage.deleteJourneySuggestion(suggestion.id);
+        return res.status(404).json({ message: 'Suggestion not found' });
+      }
+      
+      const merged = await storage.updateJourneySuggestion(suggestion.id, {
+        name: nameJourney(entries),
+        entryIds: entries.map((entry) => entry.id),
+      });
+      
+      if (!merged) {
+        return res.status(404).json({ message: 'Suggestion not found' });
+      }
+      
+      const [summary] = await toJourneySuggestionSummaries([merged], ungrouped, req.user.id);
+      res.json(summary);
+    } catch (error) {
+      console.error('Error merging journey suggestions:', error);
+      res.status(500).json({ message: 'Failed to merge journey suggestions' });
+    }
+  });
+
+  // Split a suggestion in two, just before the given entry
+  app.post('/api/journey-suggestions/:id/split', requireAuth, async (req: any, res) => {
+    try {
+      const suggestion = await getOwnedJourneySuggestion(req, res);
+      
+      if (!suggestion) {
+        return;
+      }
+      
+      const validationResult = splitJourneySuggestionSchema.safeParse(req.body ?? {});
+      
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid split', 
+          errors: validationResult.error.errors 
+        });
+      }
+      
+      const ungrouped = await getUngroupedEntries(req.user.id);
+      const entries = suggestedEntries(suggestion, ungrouped);
+      const splitAt = entries.findIndex((entry) => entry.id === validationResult.data.entryId);
+      
+      if (splitAt < 1) {
+        return res.status(400).json({ message: 'Split the suggestion at one of its later entries', code: 'invalid_split' });
+      }
+      
+      const before = entries.slice(0, splitAt);
+      const after = entries.slice(splitAt);
+      const first = await storage.updateJourneySuggestion(suggestion.id, {
+        name: nameJourney(before),
+        entryIds: before.map((entry) => entry.id),
+      });
+      
+      if (!first) {
+        return res.status(404).json({ message: 'Suggestion not found' });
+      }
+      
+      const second = await storage.createJourneySuggestion({
+        userId: req.user.id,
+        name: nameJourney(after),
+        entryIds: after.map((entry) => entry.id),
+      });
+      
+      res.json(await toJourneySuggestionSummaries([first, second], ungrouped, req.user.id));
+    } catch (error) {
+      console.error('Error splitting journey suggestion:', error);
+      res.status(500).json({ message: 'Failed to split journey suggestion' });
+    }
+  });
   
-  // Generate or update a share link for an entry
-  app.post('/api/entries/:id/share', async (req, res) => {
+  // List every share link the authenticated user has created
+  app.get('/api/share-links', requireAuth, async (req: any, res) => {
+    try {
+      const links = await storage.getShareLinksByUserId(req.user.id);
+      res.json(links.map(toShareLinkSummary));
+    } catch (error) {
+      console.error('Error getting share links:', error);
+      res.status(500).json({ message: 'Failed to fetch share links' });
+    }
+  });
+
+  // List the share links for an entry
+  app.get('/api/entries/:id/share-links', requireAuth, async (req: any, res) => {
     try {
-      const entryId = parseInt(req.params.id);
+      const entry = await getOwnedEntry(req, res);
       
-      if (isNaN(entryId)) {
-        return res.status(400).json({ message: 'Invalid entry ID' });
+      if (!entry) {
+        return;
       }
       
-      // Check if entry exists
-      const entry = await storage.getEntry(entryId);
+      const links = await storage.getShareLinksByEntryId(entry.id);
+      res.json(links.map(toShareLinkSummary));
+    } catch (error) {
+      console.error('Error getting share links:', error);
+      res.status(500).json({ message: 'Failed to fetch share links' });
+    }
+  });
+  
+  // Create a new share link for an entry
+  app.post('/api/entries/:id/share-links', requireAuth, async (req: any, res) => {
+    try {
+      // Check if entry exists and belongs to the caller
+      const entry = await getOwnedEntry(req, res);
       
       if (!entry) {
-        return res.status(404).json({ message: 'Entry not found' });
+        return;
       }
       
-      // Generate a unique shareId if not already shared
-      const shareId = entry.shareId || uuidv4();
+      const validationResult = insertShareLinkSchema.safeParse(req.body ?? {});
       
-      // Update entry with sharing information
-      const updatedEntry = await storage.updateEntrySharing(entryId, true, shareId);
+      if (!validationResult.success) {
+        return res.status(400).json({ 
+          message: 'Invalid share link options', 
+          errors: validationResult.error.errors 
+        });
+      }
       
-      if (!updatedEntry) {
-        return res.status(500).json({ message: 'Failed to update entry' });
+      const { label, expiresAt, passphrase, locationPrecision, stripExif } = validationResult.data;
+      
+      if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+        return res.status(400).json({ message: 'Expiry must be in the future' });
       }
       
-      res.status(200).json({ 
-        message: 'Entry shared successfully',
-        shareId: updatedEntry.shareId,
-        shareUrl: `/shared/${updatedEntry.shareId}`
+      const link = await storage.createShareLink({
+        id: uuidv4(),
+        entryId: entry.id,
+        label: label || null,
+        expiresAt: expiresAt ? new Date(expiresAt).toISOString() : null,
+        passphraseHash: passphrase ? await hashPassphrase(passphrase) : null,
+        locationPrecision,
+        stripExif,
+      });
+      
+      res.status(201).json({ 
+        ...toShareLinkSummary(link),
+        shareUrl: `/shared/${link.id}`
       });
     } catch (error) {
       console.error('Error sharing entry:', error);
@@ -205,35 +1173,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Stop sharing an entry
-  app.post('/api/entries/:id/unshare', async (req, res) => {
+  // Revoke one share link, leaving the entry's other links working
+  app.delete('/api/entries/:id/share-links/:linkId', requireAuth, async (req: any, res) => {
     try {
-      const entryId = parseInt(req.params.id);
+      // Check if entry exists and belongs to the caller
+      const entry = await getOwnedEntry(req, res);
       
-      if (isNaN(entryId)) {
-        return res.status(400).json({ message: 'Invalid entry ID' });
+      if (!entry) {
+        return;
       }
       
-      // Check if entry exists
-      const entry = await storage.getEntry(entryId);
+      const link = await storage.getShareLink(req.params.linkId);
       
-      if (!entry) {
-        return res.status(404).json({ message: 'Entry not found' });
+      if (!link || link.entryId !== entry.id) {
+        return res.status(404).json({ message: 'Share link not found' });
       }
       
-      // Update entry to stop sharing
-      const updatedEntry = await storage.updateEntrySharing(entryId, false);
+      const revokedLink = await storage.revokeShareLink(link.id);
       
-      if (!updatedEntry) {
-        return res.status(500).json({ message: 'Failed to update entry' });
+      if (!revokedLink) {
+        return res.status(500).json({ message: 'Failed to revoke share link' });
       }
       
-      res.status(200).json({ 
-        message: 'Entry is no longer shared'
-      });
+      res.status(200).json(toShareLinkSummary(revokedLink));
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      res.status(500).json({ message: 'Failed to revoke share link' });
+    }
+  });
+
+  // Get a shared entry by its share ID (public, no authentication).
+  // Passphrase-protected links expect the passphrase in X-Share-Passphrase.
+  app.get('/api/shared/:shareId', async (req, res) => {
+    try {
+      const link = await storage.getShareLink(req.params.shareId);
+      
+      if (!link || link.revokedAt) {
+        return res.status(404).json({ message: 'Shared entry not found' });
+      }
+      
+      if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) {
+        return res.status(410).json({ message: 'This share link has expired' });
+      }
+      
+      if (link.passphraseHash) {
+        const passphrase = req.get('X-Share-Passphrase');
+        
+        if (!passphrase) {
+          return res.status(401).json({ message: 'Passphrase required', passphraseRequired: true });
+        }
+        
+        if (!(await verifyPassphrase(passphrase, link.passphraseHash))) {
+          return res.status(403).json({ message: 'Incorrect passphrase', passphraseRequired: true });
+        }
+      }
+      
+      const entry = await storage.getEntry(link.entryId);
+      
+      if (!entry || entry.deletedAt) {
+        return res.status(404).json({ message: 'Shared entry not found' });
+      }
+      
+      await storage.recordShareLinkView(link.id);
+      
+      const sharedEntry = await toSharedEntry(entry, link);
+      res.json(await withImageVariant(sharedEntry) satisfies SharedEntry);
     } catch (error) {
-      console.error('Error unsharing entry:', error);
-      res.status(500).json({ message: 'Failed to stop sharing entry' });
+      console.error('Error getting shared entry:', error);
+      res.status(500).json({ message: 'Failed to fetch shared entry' });
     }
   });
 
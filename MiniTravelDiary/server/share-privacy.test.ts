@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from "vitest";
+import type { DiaryEntry, ShareLink } from "@shared/schema";
+import { toSharedEntry } from "./share-privacy";
+
+// Stand in for re-encoding, so the test sees which images were stripped
+vi.mock("./media", () => ({
+  stripInlineImageMetadata: async (url: string) => `${url}#stripped`,
+}));
+
+const entry = {
+  id: 1,
+  userId: "alice",
+  caption: "Harbour at dusk",
+  imageUrl: "data:image/jpeg;base64,AAAA",
+  mediaId: null,
+  photos: [],
+  location: { lat: 38.7223, lng: -9.1393 },
+  place: null,
+  geohash: "eycs0p8uk",
+  screenInfo: { width: 390, height: 844, orientation: "portrait" },
+  capturedAt: "2024-05-01T19:30:00",
+  tripId: null,
+  createdAt: "2024-05-02T08:00:00.000Z",
+  updatedAt: null,
+  deletedAt: null,
+} as DiaryEntry;
+
+function shareLink(overrides: Partial<ShareLink>): ShareLink {
+  return {
+    id: "link",
+    entryId: entry.id,
+    label: null,
+    passphraseHash: null,
+    expiresAt: null,
+    viewCount: 0,
+    locationPrecision: "exact",
+    stripExif: false,
+    createdAt: "2024-05-02T08:00:00.000Z",
+    revokedAt: null,
+    ...overrides,
+  };
+}
+
+describe("toSharedEntry", () => {
+  it("keeps the inline image as it is when the location is shared exactly and EXIF is kept", async () => {
+    const shared = await toSharedEntry(entry, shareLink({}));
+
+    expect(shared.imageUrl).toBe(entry.imageUrl);
+    expect(shared.capturedAt).toBe(entry.capturedAt);
+  });
+
+  it("strips the inline image's metadata when the location is coarsened, even if EXIF is kept", async () => {
+    const shared = await toSharedEntry(entry, shareLink({ locationPrecision: "city" }));
+
+    expect(shared.imageUrl).toBe(`${entry.imageUrl}#stripped`);
+    expect(shared.capturedAt).toBe(entry.capturedAt);
+  });
+
+  it("strips the inline image's metadata when the location is hidden", async () => {
+    const shared = await toSharedEntry(entry, shareLink({ locationPrecision: "hidden" }));
+
+    expect(shared.location).toBeNull();
+    expect(shared.imageUrl).toBe(`${entry.imageUrl}#stripped`);
+  });
+});
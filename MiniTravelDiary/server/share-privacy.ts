@@ -0,0 +1,66 @@
+import { createHash } from "crypto";
+import type { DiaryEntry, LocationPrecision, ShareLink, SharedEntry } from "@shared/schema";
+import { stripInlineImageMetadata } from "./media";
+import { isInPrivacyZone } from "./privacy-zones";
+
+type Location = NonNullable<DiaryEntry["location"]>;
+
+// Side of the grid cell a coarsened location is placed in, in degrees of
+// latitude: roughly 1 km and 11 km
+const cellDegrees: Record<Exclude<LocationPrecision, "exact" | "hidden">, number> = {
+  neighborhood: 0.01,
+  city: 0.1,
+};
+
+/**
+ * Coarsen `location` to `precision`. The point is snapped to its grid cell and
+ * then moved to a spot in that cell picked from `seed`, so it doesn't sit on a
+ * telltale grid corner. The same seed always gives the same spot, so viewing
+ * a link many times can't average the jitter away.
+ */
+export function fuzzLocation(location: Location, precision: LocationPrecision, seed: string): Location | null {
+  if (precision === "exact") {
+    return location;
+  }
+  if (precision === "hidden") {
+    return null;
+  }
+
+  const cell = cellDegrees[precision];
+  const digest = createHash("sha256").update(seed).digest();
+  const jitterLat = digest.readUInt32BE(0) / 2 ** 32;
+  const jitterLng = digest.readUInt32BE(4) / 2 ** 32;
+
+  const lat = (Math.floor(location.lat / cell) + jitterLat) * cell;
+  const lng = (Math.floor(location.lng / cell) + jitterLng) * cell;
+
+  return {
+    lat: Number(Math.min(90, Math.max(-90, lat)).toFixed(6)),
+    lng: Number(Math.min(180, Math.max(-180, lng)).toFixed(6)),
+  };
+}
+
+/**
+ * The view of `entry` served through `link`: owner details removed, the
+ * location coarsened (or hidden inside the owner's privacy zones) and, unless
+ * the owner opted out, EXIF details dropped. An inline image's metadata goes
+ * whenever the location isn't shared exactly, as its GPS tags would give it away.
+ */
+export async function toSharedEntry(entry: DiaryEntry, link: ShareLink): Promise<SharedEntry> {
+  // The geohash pins down the exact location, so it never leaves with the entry
+  const { userId, geohash, deletedAt, privacyZone, ...shared } = entry;
+  const locationPrecision = await isInPrivacyZone(entry) ? "hidden" : link.locationPrecision;
+  const stripImageMetadata = link.stripExif || locationPrecision !== "exact";
+
+  return {
+    ...shared,
+    location: shared.location && fuzzLocation(shared.location, locationPrecision, link.id),
+    // A city name says no more than a coarsened location does
+    place: locationPrecision === "hidden" ? null : shared.place,
+    capturedAt: link.stripExif ? null : shared.capturedAt,
+    imageUrl: stripImageMetadata && shared.imageUrl
+      ? await stripInlineImageMetadata(shared.imageUrl)
+      : shared.imageUrl,
+    locationPrecision,
+  };
+}
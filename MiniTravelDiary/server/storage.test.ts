@@ -0,0 +1,376 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { connectDatabase } from "./db";
+import { applyPendingMigrations } from "./migrations";
+import { DrizzleStorage, MemStorage, type IStorage } from "./storage";
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DrizzleStorage", async () => {
+    const db = await connectDatabase("pglite:memory");
+    await applyPendingMigrations(db);
+    return new DrizzleStorage(db);
+  }],
+];
+
+const mediaId = "a".repeat(64);
+const screenInfo = { width: 390, height: 844, orientation: "portrait" };
+
+describe.each(backends)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    storage = await createStorage();
+    await storage.createMedia({ id: mediaId, contentType: "image/jpeg", size: 1, uploadedBy: "alice" });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function createEntry(userId: string, caption = "Harbour at dusk") {
+    return storage.createEntry({
+      userId,
+      caption,
+      mediaId,
+      location: { lat: 38.7223, lng: -9.1393 },
+      screenInfo,
+    });
+  }
+
+  it("creates entries that can be read back", async () => {
+    const entry = await createEntry("alice");
+
+    expect(entry).toMatchObject({
+      userId: "alice",
+      caption: "Harbour at dusk",
+      mediaId,
+      location: { lat: 38.7223, lng: -9.1393 },
+      screenInfo,
+    });
+    expect(await storage.getEntry(entry.id)).toEqual(entry);
+  });
+
+  it("lists only the user's own entries, newest first", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+    const older = await createEntry("bob", "Market");
+    vi.setSystemTime(new Date("2024-05-02T10:00:00Z"));
+    const newer = await createEntry("bob", "Beach");
+    await createEntry("carol");
+
+    const entries = await storage.getEntriesByUserId("bob");
+
+    expect(entries.map((entry) => entry.id)).toEqual([newer.id, older.id]);
+  });
+
+  it("updates only the given fields", async () => {
+    const entry = await createEntry("alice");
+
+    const updated = await storage.updateEntry(entry.id, { caption: "Harbour at dawn" }, "alice");
+
+    expect(updated).toMatchObject({ caption: "Harbour at dawn", location: entry.location });
+    expect(await storage.getEntry(entry.id)).toEqual(updated);
+    expect(await storage.updateEntry(999_999, { caption: "Nowhere" }, "alice")).toBeUndefined();
+  });
+
+  it("records each edit that changes something as a revision, newest first", async () => {
+    const entry = await createEntry("alice");
+
+    await storage.updateEntry(entry.id, { caption: "Harbour at dawn" }, "alice");
+    await storage.updateEntry(entry.id, { caption: "Harbour at dawn" }, "alice");
+    await storage.updateEntry(entry.id, { location: null }, "alice");
+
+    const revisions = await storage.getRevisionsByEntryId(entry.id);
+    expect(revisions.map((revision) => revision.changes)).toEqual([
+      { location: { from: entry.location, to: null } },
+      { caption: { from: "Harbour at dusk", to: "Harbour at dawn" } },
+    ]);
+    expect(revisions.every((revision) => revision.editedBy === "alice")).toBe(true);
+  });
+
+  it("moves entries between trips with an edit, without recording the move", async () => {
+    const entry = await createEntry("alice");
+    const trip = await storage.createTrip({ userId: "alice", name: "Lisbon", description: null, startDate: null, endDate: null });
+
+    const moved = await storage.updateEntry(entry.id, {}, "alice", trip.id);
+    expect(moved).toMatchObject({ tripId: trip.id, updatedAt: null });
+    expect(await storage.getRevisionsByEntryId(entry.id)).toEqual([]);
+
+    const edited = await storage.updateEntry(entry.id, { caption: "Harbour at dawn" }, "alice", null);
+    expect(edited).toMatchObject({ tripId: null, caption: "Harbour at dawn" });
+    expect(await storage.getRevisionsByEntryId(entry.id)).toHaveLength(1);
+  });
+
+  it("keeps share links until they're revoked, counting their views", async () => {
+    const entry = await createEntry("dave");
+    const link = await storage.createShareLink({
+      id: "share-1",
+      entryId: entry.id,
+      label: "Family",
+      passphraseHash: null,
+      expiresAt: null,
+    });
+    expect(link).toMatchObject({ viewCount: 0, revokedAt: null });
+
+    await storage.recordShareLinkView(link.id);
+    await storage.recordShareLinkView(link.id);
+    const revoked = await storage.revokeShareLink(link.id);
+
+    expect(revoked).toMatchObject({ id: "share-1", label: "Family", viewCount: 2 });
+    expect(revoked?.revokedAt).not.toBeNull();
+    expect(await storage.getShareLink(link.id)).toEqual(revoked);
+    expect(await storage.getShareLinksByEntryId(entry.id)).toEqual([revoked]);
+    expect(await storage.getShareLinksByUserId("dave")).toEqual([revoked]);
+    expect(await storage.getShareLinksByUserId("erin")).toEqual([]);
+  });
+
+  it("finds the user's live entries inside bounds, including across the antimeridian", async () => {
+    const at = (caption: string, lat: number, lng: number) =>
+      storage.createEntry({ userId: "nora", caption, mediaId, location: { lat, lng }, screenInfo });
+    const lisbon = await at("Lisbon", 38.7223, -9.1393);
+    const porto = await at("Porto", 41.1579, -8.6291);
+    const suva = await at("Suva", -18.1416, 178.4419);
+    const apia = await at("Apia", -13.8333, -171.7667);
+    const trashed = await at("Sintra", 38.8029, -9.3817);
+    await storage.trashEntry(trashed.id);
+    await storage.createEntry({ userId: "otto", caption: "Lisbon", mediaId, location: { lat: 38.72, lng: -9.14 }, screenInfo });
+
+    const ids = async (bounds: { south: number; west: number; north: number; east: number }) =>
+      (await storage.getEntriesInBounds("nora", bounds)).map((entry) => entry.id).sort();
+
+    expect(await ids({ south: 38, west: -10, north: 39.5, east: -8 })).toEqual([lisbon.id]);
+    expect(await ids({ south: 36, west: -10, north: 42.5, east: -6 })).toEqual([lisbon.id, porto.id].sort());
+    expect(await ids({ south: -20, west: 175, north: -10, east: -170 })).toEqual([suva.id, apia.id].sort());
+    expect(await ids({ south: -90, west: -180, north: 90, east: 180 })).toEqual([lisbon.id, porto.id, suva.id, apia.id].sort());
+    expect(await ids({ south: 0, west: 0, north: 10, east: 10 })).toEqual([]);
+  });
+
+  it("moves entries to the trash and back", async () => {
+    const entry = await createEntry("frank");
+
+    const trashed = await storage.trashEntry(entry.id);
+    expect(trashed?.deletedAt).not.toBeNull();
+    expect(await storage.getEntriesByUserId("frank")).toEqual([]);
+    expect((await storage.getTrashedEntriesByUserId("frank")).map((e) => e.id)).toEqual([entry.id]);
+
+    const restored = await storage.restoreEntry(entry.id);
+    expect(restored?.deletedAt).toBeNull();
+    expect((await storage.getEntriesByUserId("frank")).map((e) => e.id)).toEqual([entry.id]);
+    expect(await storage.getTrashedEntriesByUserId("frank")).toEqual([]);
+  });
+
+  it("finds entries trashed before the cutoff", async () => {
+    const older = await createEntry("grace");
+    const newer = await createEntry("grace");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+    await storage.trashEntry(older.id);
+    vi.setSystemTime(new Date("2024-05-03T10:00:00Z"));
+    await storage.trashEntry(newer.id);
+
+    const expired = await storage.getEntriesTrashedBefore("2024-05-02T00:00:00.000Z");
+
+    expect(expired.map((entry) => entry.id)).toContain(older.id);
+    expect(expired.map((entry) => entry.id)).not.toContain(newer.id);
+  });
+
+  it("purges a single entry", async () => {
+    const entry = await createEntry("grace");
+
+    await storage.purgeEntry(entry.id);
+
+    expect(await storage.getEntry(entry.id)).toBeUndefined();
+  });
+
+  it("keeps each user's journey suggestions in the order they were made", async () => {
+    const first = await storage.createJourneySuggestion({ userId: "tess", name: "Lisbon", entryIds: [1, 2] });
+    const second = await storage.createJourneySuggestion({ userId: "tess", name: "Porto", entryIds: [3] });
+    await storage.createJourneySuggestion({ userId: "uma", name: "Faro", entryIds: [4] });
+
+    expect(first).toMatchObject({ userId: "tess", name: "Lisbon", entryIds: [1, 2] });
+    expect(await storage.getJourneySuggestion(first.id)).toEqual(first);
+    expect(await storage.getJourneySuggestionsByUserId("tess")).toEqual([first, second]);
+
+    const merged = await storage.updateJourneySuggestion(first.id, { name: "Portugal", entryIds: [1, 2, 3] });
+    await storage.deleteJourneySuggestion(second.id);
+
+    expect(merged).toMatchObject({ id: first.id, name: "Portugal", entryIds: [1, 2, 3] });
+    expect(await storage.getJourneySuggestionsByUserId("tess")).toEqual([merged]);
+    expect(await storage.updateJourneySuggestion(second.id, { name: "Gone", entryIds: [] })).toBeUndefined();
+  });
+
+  it("lists the users who have live entries outside any trip", async () => {
+    const grouped = await createEntry("vera");
+    const trip = await storage.createTrip({ userId: "vera", name: "Lisbon", description: null, startDate: null, endDate: null });
+    await storage.updateEntry(grouped.id, {}, "vera", trip.id);
+    const trashed = await createEntry("walt");
+    await storage.trashEntry(trashed.id);
+    await createEntry("xena");
+
+    const userIds = await storage.getUserIdsWithUngroupedEntries();
+
+    expect(userIds).toContain("xena");
+    expect(userIds).not.toContain("vera");
+    expect(userIds).not.toContain("walt");
+    expect(new Set(userIds).size).toBe(userIds.length);
+  });
+
+  it("accepts a journey suggestion once, filing its ungrouped entries under a new trip", async () => {
+    const first = await createEntry("kim");
+    const second = await createEntry("kim");
+    const grouped = await createEntry("kim");
+    const other = await storage.createTrip({ userId: "kim", name: "Porto", description: null, startDate: null, endDate: null });
+    await storage.updateEntry(grouped.id, {}, "kim", other.id);
+    const suggestion = await storage.createJourneySuggestion({ userId: "kim", name: "Lisbon", entryIds: [first.id, second.id, grouped.id] });
+    const newTrip = { userId: "kim", name: "Lisbon", description: null, startDate: "2024-05-01", endDate: "2024-05-02" };
+
+    const trip = await storage.acceptJourneySuggestion(suggestion.id, newTrip, suggestion.entryIds);
+
+    expect(trip).toMatchObject(newTrip);
+    expect((await storage.getEntriesByTripId(trip!.id)).map((entry) => entry.id).sort()).toEqual([first.id, second.id]);
+    expect((await storage.getEntry(grouped.id))?.tripId).toBe(other.id);
+    expect(await storage.getJourneySuggestion(suggestion.id)).toBeUndefined();
+    expect(await storage.acceptJourneySuggestion(suggestion.id, newTrip, suggestion.entryIds)).toBeUndefined();
+    expect((await storage.getTripsByUserId("kim")).map((t) => t.name).sort()).toEqual(["Lisbon", "Porto"]);
+  });
+
+  it("finds located entries without a place, until one is set", async () => {
+    const located = await createEntry("mia");
+    const unlocated = await storage.createEntry({ userId: "mia", caption: "Somewhere", mediaId, location: null, screenInfo });
+    const place = { city: "Lisbon", region: "Lisbon", country: "Portugal", countryCode: "PT" };
+
+    const before = (await storage.getEntriesWithoutPlace()).map((entry) => entry.id);
+    await storage.setEntryPlace(located.id, place);
+    const after = (await storage.getEntriesWithoutPlace()).map((entry) => entry.id);
+
+    expect(before).toContain(located.id);
+    expect(before).not.toContain(unlocated.id);
+    expect(after).not.toContain(located.id);
+    expect((await storage.getEntry(located.id))?.place).toEqual(place);
+  });
+
+  it("keeps each user's privacy zones, oldest first, until removed", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+    const home = await storage.createPrivacyZone({ userId: "quinn", label: "Home", lat: 38.7223, lng: -9.1393, radiusMeters: 500 });
+    vi.setSystemTime(new Date("2024-05-02T10:00:00Z"));
+    const work = await storage.createPrivacyZone({ userId: "quinn", label: "Work", lat: 38.7369, lng: -9.1426, radiusMeters: 200 });
+    await storage.createPrivacyZone({ userId: "rosa", label: "Home", lat: 41.1579, lng: -8.6291, radiusMeters: 300 });
+
+    expect(home).toMatchObject({ userId: "quinn", label: "Home", lat: 38.7223, lng: -9.1393, radiusMeters: 500 });
+    expect(await storage.getPrivacyZone(home.id)).toEqual(home);
+    expect(await storage.getPrivacyZonesByUserId("quinn")).toEqual([home, work]);
+
+    await storage.deletePrivacyZone(home.id);
+
+    expect(await storage.getPrivacyZone(home.id)).toBeUndefined();
+    expect(await storage.getPrivacyZonesByUserId("quinn")).toEqual([work]);
+  });
+
+  it("keeps trips with their entries, and ungroups the entries when one is deleted", async () => {
+    const newTrip = { userId: "sam", name: "Lisbon", description: "Long weekend", startDate: "2024-05-01", endDate: "2024-05-03" };
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+    const older = await storage.createTrip(newTrip);
+    vi.setSystemTime(new Date("2024-06-01T10:00:00Z"));
+    const newer = await storage.createTrip({ ...newTrip, name: "Porto" });
+    const inTrip = await createEntry("sam");
+    const trashedInTrip = await createEntry("sam");
+    await storage.updateEntry(inTrip.id, {}, "sam", older.id);
+    await storage.updateEntry(trashedInTrip.id, {}, "sam", older.id);
+    await storage.trashEntry(trashedInTrip.id);
+
+    expect(older).toMatchObject({ ...newTrip, coverMediaId: null, updatedAt: null });
+    expect(await storage.getTrip(older.id)).toEqual(older);
+    expect((await storage.getTripsByUserId("sam")).map((trip) => trip.id)).toEqual([newer.id, older.id]);
+    expect((await storage.getEntriesByTripId(older.id)).map((entry) => entry.id)).toEqual([inTrip.id]);
+
+    const updated = await storage.updateTrip(older.id, { name: "Lisbon and Sintra", coverMediaId: mediaId });
+    expect(updated).toMatchObject({ name: "Lisbon and Sintra", description: "Long weekend", coverMediaId: mediaId });
+    expect(updated?.updatedAt).not.toBeNull();
+    expect(await storage.updateTrip(999_999, { name: "Nowhere" })).toBeUndefined();
+
+    await storage.deleteTrip(older.id);
+
+    expect(await storage.getTrip(older.id)).toBeUndefined();
+    expect((await storage.getEntry(inTrip.id))?.tripId).toBeNull();
+    expect((await storage.getEntry(trashedInTrip.id))?.tripId).toBeNull();
+  });
+
+  it("records media", async () => {
+    const record = await storage.createMedia({ id: "b".repeat(64), contentType: "image/png", size: 4, uploadedBy: "heidi" });
+
+    expect(record).toMatchObject({ id: "b".repeat(64), contentType: "image/png", size: 4, uploadedBy: "heidi" });
+    expect(await storage.getMedia(record.id)).toEqual(record);
+  });
+
+  it("deletes only media that nothing uses any more", async () => {
+    const [cover, replaced, unused] = ["d", "e", "f"].map((c) => c.repeat(64));
+    for (const id of [cover, replaced, unused]) {
+      await storage.createMedia({ id, contentType: "image/jpeg", size: 1, uploadedBy: "ivan" });
+    }
+    const entry = await storage.createEntry({
+      userId: "ivan",
+      caption: "Tram 28",
+      mediaId: replaced,
+      location: null,
+      screenInfo,
+    });
+    await storage.updateEntry(entry.id, { mediaId: cover, photos: [{ mediaId: cover, caption: null }] }, "ivan");
+
+    const deleted = await storage.deleteUnusedMedia([cover, replaced, unused, mediaId]);
+
+    expect(deleted.map((record) => record.id)).toEqual([unused]);
+    expect(await storage.getMedia(unused)).toBeUndefined();
+    expect(await storage.getMedia(replaced)).toBeDefined();
+
+    await storage.purgeEntry(entry.id);
+    expect((await storage.deleteUnusedMedia([cover, replaced])).map((record) => record.id).sort()).toEqual([cover, replaced]);
+  });
+
+  it("records upload progress only from the offset it expects", async () => {
+    const upload = await storage.createUpload({ id: "upload-1", userId: "alice", contentType: "image/jpeg", size: 10 });
+    expect(upload).toMatchObject({ received: 0, chunks: [] });
+    const progress = { received: 6, chunks: [{ offset: 0, sha256: "ab" }] };
+
+    expect(await storage.setUploadProgress(upload.id, 0, progress)).toMatchObject(progress);
+    expect(await storage.setUploadProgress(upload.id, 0, { received: 4, chunks: [{ offset: 0, sha256: "cd" }] })).toBeUndefined();
+    expect(await storage.getUpload(upload.id)).toMatchObject(progress);
+
+    await storage.deleteUpload(upload.id);
+    expect(await storage.getUpload(upload.id)).toBeUndefined();
+  });
+
+  it("finds uploads started before the cutoff", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+    const stale = await storage.createUpload({ id: "upload-stale", userId: "alice", contentType: "image/jpeg", size: 10 });
+    vi.setSystemTime(new Date("2024-05-03T10:00:00Z"));
+    const fresh = await storage.createUpload({ id: "upload-fresh", userId: "alice", contentType: "image/jpeg", size: 10 });
+
+    const ids = (await storage.getUploadsCreatedBefore("2024-05-02T00:00:00.000Z")).map((upload) => upload.id);
+
+    expect(ids).toContain(stale.id);
+    expect(ids).not.toContain(fresh.id);
+  });
+
+  it("records image dimensions for media measured later", async () => {
+    const unsized = await storage.createMedia({ id: "9".repeat(64), contentType: "image/png", size: 4, uploadedBy: "zoe", width: null, height: null });
+    expect(unsized).toMatchObject({ width: null, height: null });
+    expect((await storage.getMediaWithoutDimensions()).map((record) => record.id)).toContain(unsized.id);
+
+    await storage.setMediaDimensions(unsized.id, 640, 480);
+
+    expect(await storage.getMedia(unsized.id)).toMatchObject({ width: 640, height: 480 });
+    expect((await storage.getMediaWithoutDimensions()).map((record) => record.id)).not.toContain(unsized.id);
+    expect((await storage.getMediaByIds([unsized.id, "8".repeat(64)])).map((record) => record.id)).toEqual([unsized.id]);
+    expect(await storage.getMediaByIds([])).toEqual([]);
+  });
+
+  it("returns nothing for unknown entries", async () => {
+    expect(await storage.getEntry(999_999)).toBeUndefined();
+    expect(await storage.getMedia("c".repeat(64))).toBeUndefined();
+    expect(await storage.getShareLink("missing")).toBeUndefined();
+    expect(await storage.revokeShareLink("missing")).toBeUndefined();
+  });
+});
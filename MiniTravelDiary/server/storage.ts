@@ -1,62 +1,209 @@
-import { DiaryEntry, InsertDiaryEntry } from "@shared/schema";
+import { and, desc, eq, inArray, isNotNull, isNull, like, lt, or, sql } from "drizzle-orm";
+import {
+  DiaryEntry,
+  EntryPlace,
+  EntryRevision,
+  InsertDiaryEntry,
+  JourneySuggestion,
+  Media,
+  PrivacyZone,
+  ShareLink,
+  Trip,
+  EntryFieldUpdates,
+  Upload,
+  diaryEntries,
+  entryRevisions,
+  journeySuggestions,
+  media,
+  privacyZones,
+  shareLinks,
+  trips,
+  uploads,
+  users,
+} from "@shared/schema";
+import { db, type Database } from "./db";
+import { photoMediaIds } from "./entry-photos";
+import { diffEntry } from "./revisions";
+import {
+  cellRange,
+  encodeGeohash,
+  geohashPrefixes,
+  isWithinBounds,
+  longitudeSpans,
+  withGeohash,
+  type GeoBounds,
+} from "./geohash";
 
 // modify the interface with any CRUD methods
 // you might need
 
 export interface IStorage {
   getEntriesByUserId(userId: string): Promise<DiaryEntry[]>;
+  getEntriesInBounds(userId: string, bounds: GeoBounds): Promise<DiaryEntry[]>;
+  getTrashedEntriesByUserId(userId: string): Promise<DiaryEntry[]>;
   getEntry(id: number): Promise<DiaryEntry | undefined>;
-  getEntryByShareId(shareId: string): Promise<DiaryEntry | undefined>;
-  createEntry(entry: Omit<InsertDiaryEntry, "id">): Promise<DiaryEntry>;
-  deleteEntry(id: number): Promise<void>;
-  updateEntrySharing(id: number, isShared: boolean, shareId?: string): Promise<DiaryEntry | undefined>;
+  createEntry(entry: NewEntry): Promise<DiaryEntry>;
+  updateEntry(id: number, updates: EntryFieldUpdates, editedBy: string, tripId?: number | null): Promise<DiaryEntry | undefined>;
+  getRevisionsByEntryId(entryId: number): Promise<EntryRevision[]>;
+  trashEntry(id: number): Promise<DiaryEntry | undefined>;
+  restoreEntry(id: number): Promise<DiaryEntry | undefined>;
+  purgeEntry(id: number): Promise<void>;
+  getEntriesTrashedBefore(cutoff: string): Promise<DiaryEntry[]>;
+  getEntriesWithInlineImages(): Promise<DiaryEntry[]>;
+  moveEntryImageToMedia(id: number, mediaId: string): Promise<void>;
+  getEntriesWithoutPlace(): Promise<DiaryEntry[]>;
+  setEntryPlace(id: number, place: EntryPlace | null): Promise<void>;
+  getMedia(id: string): Promise<Media | undefined>;
+  getMediaByIds(ids: string[]): Promise<Media[]>;
+  getMediaWithoutDimensions(): Promise<Media[]>;
+  createMedia(media: NewMedia): Promise<Media>;
+  deleteUnusedMedia(ids: string[]): Promise<Media[]>;
+  setMediaDimensions(id: string, width: number, height: number): Promise<void>;
+  getUpload(id: string): Promise<Upload | undefined>;
+  createUpload(upload: NewUpload): Promise<Upload>;
+  setUploadProgress(id: string, from: number, progress: UploadProgress): Promise<Upload | undefined>;
+  deleteUpload(id: string): Promise<void>;
+  getUploadsCreatedBefore(cutoff: string): Promise<Upload[]>;
+  getShareLink(id: string): Promise<ShareLink | undefined>;
+  getShareLinksByEntryId(entryId: number): Promise<ShareLink[]>;
+  getShareLinksByUserId(userId: string): Promise<ShareLink[]>;
+  createShareLink(link: NewShareLink): Promise<ShareLink>;
+  revokeShareLink(id: string): Promise<ShareLink | undefined>;
+  recordShareLinkView(id: string): Promise<void>;
+  getPrivacyZonesByUserId(userId: string): Promise<PrivacyZone[]>;
+  getPrivacyZone(id: number): Promise<PrivacyZone | undefined>;
+  createPrivacyZone(zone: NewPrivacyZone): Promise<PrivacyZone>;
+  deletePrivacyZone(id: number): Promise<void>;
+  getTripsByUserId(userId: string): Promise<Trip[]>;
+  getTrip(id: number): Promise<Trip | undefined>;
+  getEntriesByTripId(tripId: number): Promise<DiaryEntry[]>;
+  createTrip(trip: NewTrip): Promise<Trip>;
+  updateTrip(id: number, updates: TripFieldUpdates): Promise<Trip | undefined>;
+  deleteTrip(id: number): Promise<void>;
+  getUserIdsWithUngroupedEntries(): Promise<string[]>;
+  getJourneySuggestionsByUserId(userId: string): Promise<JourneySuggestion[]>;
+  getJourneySuggestion(id: number): Promise<JourneySuggestion | undefined>;
+  createJourneySuggestion(suggestion: NewJourneySuggestion): Promise<JourneySuggestion>;
+  updateJourneySuggestion(id: number, updates: Pick<JourneySuggestion, "name" | "entryIds">): Promise<JourneySuggestion | undefined>;
+  deleteJourneySuggestion(id: number): Promise<void>;
+  acceptJourneySuggestion(id: number, trip: NewTrip, entryIds: number[]): Promise<Trip | undefined>;
+}
+
+export type NewEntry = InsertDiaryEntry & Partial<Pick<DiaryEntry, "place">>;
+export type NewShareLink = Pick<
+  ShareLink,
+  "id" | "entryId" | "label" | "passphraseHash" | "expiresAt" | "locationPrecision" | "stripExif"
+>;
+export type NewMedia = Omit<Media, "createdAt">;
+export type NewUpload = Pick<Upload, "id" | "userId" | "contentType" | "size">;
+export type UploadProgress = Pick<Upload, "received" | "chunks">;
+export type NewPrivacyZone = Omit<PrivacyZone, "id" | "createdAt">;
+export type NewTrip = Omit<Trip, "id" | "coverMediaId" | "createdAt" | "updatedAt">;
+export type TripFieldUpdates = Partial<Pick<Trip, "name" | "description" | "startDate" | "endDate" | "coverMediaId">>;
+export type NewJourneySuggestion = Pick<JourneySuggestion, "userId" | "name" | "entryIds">;
+
+// Side of the cells MemStorage indexes entry locations by, in degrees
+const GRID_DEGREES = 1;
+
+function cellKey(location: NonNullable<DiaryEntry["location"]>) {
+  const { first: row } = cellRange(location.lat, location.lat, -90, GRID_DEGREES);
+  const { first: column } = cellRange(location.lng, location.lng, -180, GRID_DEGREES);
+  return `${row}:${column}`;
 }
 
 export class MemStorage implements IStorage {
   private entries: Map<number, DiaryEntry>;
+  private shareLinks: Map<string, ShareLink>;
+  private revisions: Map<number, EntryRevision>;
+  private media: Map<string, Media>;
+  private uploads: Map<string, Upload>;
+  private privacyZones: Map<number, PrivacyZone>;
+  private trips: Map<number, Trip>;
+  private journeySuggestions: Map<number, JourneySuggestion>;
+  // IDs of the entries located in each grid cell, keyed by cellKey()
+  private entryCells: Map<string, Set<number>>;
   private currentId: number;
+  private currentRevisionId: number;
+  private currentPrivacyZoneId: number;
+  private currentTripId: number;
+  private currentJourneySuggestionId: number;
 
   constructor() {
     this.entries = new Map();
+    this.shareLinks = new Map();
+    this.revisions = new Map();
+    this.media = new Map();
+    this.uploads = new Map();
+    this.privacyZones = new Map();
+    this.trips = new Map();
+    this.journeySuggestions = new Map();
+    this.entryCells = new Map();
     this.currentId = 1;
+    this.currentRevisionId = 1;
+    this.currentPrivacyZoneId = 1;
+    this.currentTripId = 1;
+    this.currentJourneySuggestionId = 1;
   }
 
   async getEntriesByUserId(userId: string): Promise<DiaryEntry[]> {
     return Array.from(this.entries.values())
-      .filter(entry => entry.userId === userId)
+      .filter(entry => entry.userId === userId && !entry.deletedAt)
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async getEntry(id: number): Promise<DiaryEntry | undefined> {
-    return this.entries.get(id);
-  }
-  
-  async getEntryByShareId(shareId: string): Promise<DiaryEntry | undefined> {
-    return Array.from(this.entries.values()).find(entry => entry.shareId === shareId && entry.isShared);
+  async getEntriesInBounds(userId: string, bounds: GeoBounds): Promise<DiaryEntry[]> {
+    const rows = cellRange(bounds.south, bounds.north, -90, GRID_DEGREES);
+    const columns = longitudeSpans(bounds).map(([west, east]) => cellRange(west, east, -180, GRID_DEGREES));
+    const cellCount = (rows.last - rows.first + 1)
+      * columns.reduce((sum, { first, last }) => sum + last - first + 1, 0);
+
+    // Looking in every cell of a big area is slower than checking every entry
+    let candidates: DiaryEntry[];
+    if (cellCount > this.entries.size) {
+      candidates = Array.from(this.entries.values());
+    } else {
+      candidates = [];
+      for (let row = rows.first; row <= rows.last; row++) {
+        for (const { first, last } of columns) {
+          for (let column = first; column <= last; column++) {
+            this.entryCells.get(`${row}:${column}`)?.forEach(id => candidates.push(this.entries.get(id)!));
+          }
+        }
+      }
+    }
+
+    return candidates
+      .filter(entry => entry.userId === userId && !entry.deletedAt)
+      .filter(entry => entry.location && isWithinBounds(entry.location, bounds))
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
-  
-  async updateEntrySharing(id: number, isShared: boolean, shareId?: string): Promise<DiaryEntry | undefined> {
-    const entry = this.entries.get(id);
-    
-    if (!entry) {
-      return undefined;
+
+  // Move `id` from the grid cell of `from` to that of `to`
+  private reindexEntryLocation(id: number, from: DiaryEntry["location"], to: DiaryEntry["location"]) {
+    if (from) {
+      this.entryCells.get(cellKey(from))?.delete(id);
+    }
+    if (to) {
+      const key = cellKey(to);
+      this.entryCells.set(key, (this.entryCells.get(key) ?? new Set()).add(id));
     }
-    
-    const updatedEntry = {
-      ...entry,
-      isShared,
-      shareId: shareId || entry.shareId
-    };
-    
-    this.entries.set(id, updatedEntry);
-    return updatedEntry;
   }
 
-  async createEntry(entryData: Omit<InsertDiaryEntry, "id" | "createdAt">): Promise<DiaryEntry> {
+  async getTrashedEntriesByUserId(userId: string): Promise<DiaryEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.userId === userId && !!entry.deletedAt)
+      .sort((a, b) => b.deletedAt!.localeCompare(a.deletedAt!));
+  }
+
+  async getEntry(id: number): Promise<DiaryEntry | undefined> {
+    return this.entries.get(id);
+  }
+  
+  async createEntry(entryData: NewEntry): Promise<DiaryEntry> {
     console.log('Storage: Creating new entry with data:', {
       userId: entryData.userId,
       caption: entryData.caption,
-      hasImage: !!entryData.imageUrl,
+      mediaId: entryData.mediaId,
       hasLocation: !!entryData.location
     });
     
@@ -88,16 +235,23 @@ export class MemStorage implements IStorage {
         id,
         userId: entryData.userId,
         caption: entryData.caption || 'My travel memory',
-        imageUrl: entryData.imageUrl || 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==',
+        imageUrl: null,
+        mediaId: entryData.mediaId,
+        photos: entryData.photos ?? [{ mediaId: entryData.mediaId, caption: null }],
         location: locationData,
+        place: entryData.place ?? null,
+        geohash: locationData && encodeGeohash(locationData),
         screenInfo: screenInfo,
+        capturedAt: entryData.capturedAt ?? null,
+        tripId: entryData.tripId ?? null,
         createdAt: timestamp,
-        shareId: null,
-        isShared: false,
+        updatedAt: null,
+        deletedAt: null,
       };
       
       console.log('Storage: Entry created with ID:', id);
       this.entries.set(id, newEntry);
+      this.reindexEntryLocation(id, null, newEntry.location);
       return newEntry;
     } catch (error) {
       console.error('Storage: Error creating entry:', error);
@@ -105,9 +259,792 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async deleteEntry(id: number): Promise<void> {
+  async updateEntry(id: number, updates: EntryFieldUpdates, editedBy: string, tripId?: number | null): Promise<DiaryEntry | undefined> {
+    const entry = this.entries.get(id);
+    
+    if (!entry) {
+      return undefined;
+    }
+    
+    const changes = diffEntry(entry, updates);
+    const edited = Object.keys(changes).length > 0;
+    const movesTrip = tripId !== undefined && tripId !== entry.tripId;
+    
+    if (!edited && !movesTrip) {
+      return entry;
+    }
+    
+    const timestamp = new Date().toISOString();
+    const updatedEntry: DiaryEntry = {
+      ...entry,
+      ...(movesTrip ? { tripId } : {}),
+      ...(edited ? { ...withGeohash(updates), updatedAt: timestamp } : {}),
+    };
+    
+    if (edited) {
+      const revisionId = this.currentRevisionId++;
+      this.revisions.set(revisionId, {
+        id: revisionId,
+        entryId: id,
+        editedBy,
+        changes,
+        createdAt: timestamp,
+      });
+    }
+    
+    this.entries.set(id, updatedEntry);
+    this.reindexEntryLocation(id, entry.location, updatedEntry.location);
+    return updatedEntry;
+  }
+
+  async getRevisionsByEntryId(entryId: number): Promise<EntryRevision[]> {
+    return Array.from(this.revisions.values())
+      .filter(revision => revision.entryId === entryId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async trashEntry(id: number): Promise<DiaryEntry | undefined> {
+    return this.setDeletedAt(id, new Date().toISOString());
+  }
+
+  async restoreEntry(id: number): Promise<DiaryEntry | undefined> {
+    return this.setDeletedAt(id, null);
+  }
+
+  private setDeletedAt(id: number, deletedAt: string | null): DiaryEntry | undefined {
+    const entry = this.entries.get(id);
+    
+    if (!entry) {
+      return undefined;
+    }
+    
+    const updatedEntry = { ...entry, deletedAt };
+    this.entries.set(id, updatedEntry);
+    return updatedEntry;
+  }
+
+  async getEntriesTrashedBefore(cutoff: string): Promise<DiaryEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.deletedAt && entry.deletedAt < cutoff);
+  }
+
+  async purgeEntry(id: number): Promise<void> {
+    this.reindexEntryLocation(id, this.entries.get(id)?.location ?? null, null);
     this.entries.delete(id);
+    Array.from(this.shareLinks.values())
+      .filter(link => link.entryId === id)
+      .forEach(link => this.shareLinks.delete(link.id));
+    Array.from(this.revisions.values())
+      .filter(revision => revision.entryId === id)
+      .forEach(revision => this.revisions.delete(revision.id));
+  }
+
+  async getEntriesWithInlineImages(): Promise<DiaryEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.imageUrl && !entry.mediaId);
+  }
+
+  async moveEntryImageToMedia(id: number, mediaId: string): Promise<void> {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.set(id, { ...entry, imageUrl: null, mediaId, photos: [{ mediaId, caption: null }] });
+    }
+  }
+
+  async getEntriesWithoutPlace(): Promise<DiaryEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.location && !entry.place);
+  }
+
+  async setEntryPlace(id: number, place: EntryPlace | null): Promise<void> {
+    const entry = this.entries.get(id);
+    if (entry) {
+      this.entries.set(id, { ...entry, place });
+    }
+  }
+
+  async getMedia(id: string): Promise<Media | undefined> {
+    return this.media.get(id);
+  }
+
+  async getMediaByIds(ids: string[]): Promise<Media[]> {
+    return ids.flatMap(id => this.media.get(id) ?? []);
+  }
+
+  async getMediaWithoutDimensions(): Promise<Media[]> {
+    return Array.from(this.media.values()).filter(record => record.width === null);
+  }
+
+  async createMedia(newMedia: NewMedia): Promise<Media> {
+    // Identical bytes hash to the same id, so keep the first upload's record
+    const existing = this.media.get(newMedia.id);
+    if (existing) {
+      return existing;
+    }
+    
+    const record: Media = { ...newMedia, createdAt: new Date().toISOString() };
+    this.media.set(record.id, record);
+    return record;
+  }
+
+  async deleteUnusedMedia(ids: string[]): Promise<Media[]> {
+    const usedByEntries = new Set(Array.from(this.entries.values()).flatMap(entry => photoMediaIds(entry)));
+    const revisionChanges = Array.from(this.revisions.values()).map(revision => JSON.stringify(revision.changes));
+    const trips = Array.from(this.trips.values());
+    
+    const unused = Array.from(new Set(ids))
+      .flatMap(id => this.media.get(id) ?? [])
+      .filter(record => !usedByEntries.has(record.id)
+        && !revisionChanges.some(changes => changes.includes(record.id))
+        && !trips.some(trip => trip.coverMediaId === record.id));
+    unused.forEach(record => this.media.delete(record.id));
+    return unused;
+  }
+
+  async setMediaDimensions(id: string, width: number, height: number): Promise<void> {
+    const record = this.media.get(id);
+    if (record) {
+      this.media.set(id, { ...record, width, height });
+    }
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async createUpload(newUpload: NewUpload): Promise<Upload> {
+    const upload: Upload = { ...newUpload, received: 0, chunks: [], createdAt: new Date().toISOString() };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  async setUploadProgress(id: string, from: number, progress: UploadProgress): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    
+    if (!upload || upload.received !== from) {
+      return undefined;
+    }
+    
+    const updatedUpload = { ...upload, ...progress };
+    this.uploads.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
+  async deleteUpload(id: string): Promise<void> {
+    this.uploads.delete(id);
+  }
+
+  async getUploadsCreatedBefore(cutoff: string): Promise<Upload[]> {
+    return Array.from(this.uploads.values()).filter(upload => upload.createdAt < cutoff);
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    return this.shareLinks.get(id);
+  }
+
+  async getShareLinksByEntryId(entryId: number): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => link.entryId === entryId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getShareLinksByUserId(userId: string): Promise<ShareLink[]> {
+    return Array.from(this.shareLinks.values())
+      .filter(link => this.entries.get(link.entryId)?.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async createShareLink(link: NewShareLink): Promise<ShareLink> {
+    const shareLink: ShareLink = {
+      ...link,
+      viewCount: 0,
+      createdAt: new Date().toISOString(),
+      revokedAt: null,
+    };
+    this.shareLinks.set(shareLink.id, shareLink);
+    return shareLink;
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink | undefined> {
+    const link = this.shareLinks.get(id);
+    
+    if (!link) {
+      return undefined;
+    }
+    
+    const revokedLink = { ...link, revokedAt: link.revokedAt ?? new Date().toISOString() };
+    this.shareLinks.set(id, revokedLink);
+    return revokedLink;
+  }
+
+  async recordShareLinkView(id: string): Promise<void> {
+    const link = this.shareLinks.get(id);
+    if (link) {
+      this.shareLinks.set(id, { ...link, viewCount: link.viewCount + 1 });
+    }
+  }
+
+  async getPrivacyZonesByUserId(userId: string): Promise<PrivacyZone[]> {
+    return Array.from(this.privacyZones.values())
+      .filter(zone => zone.userId === userId)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getPrivacyZone(id: number): Promise<PrivacyZone | undefined> {
+    return this.privacyZones.get(id);
+  }
+
+  async createPrivacyZone(zone: NewPrivacyZone): Promise<PrivacyZone> {
+    const privacyZone: PrivacyZone = {
+      ...zone,
+      id: this.currentPrivacyZoneId++,
+      createdAt: new Date().toISOString(),
+    };
+    this.privacyZones.set(privacyZone.id, privacyZone);
+    return privacyZone;
+  }
+
+  async deletePrivacyZone(id: number): Promise<void> {
+    this.privacyZones.delete(id);
+  }
+
+  async getTripsByUserId(userId: string): Promise<Trip[]> {
+    return Array.from(this.trips.values())
+      .filter(trip => trip.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async getTrip(id: number): Promise<Trip | undefined> {
+    return this.trips.get(id);
+  }
+
+  async getEntriesByTripId(tripId: number): Promise<DiaryEntry[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.tripId === tripId && !entry.deletedAt);
+  }
+
+  async createTrip(newTrip: NewTrip): Promise<Trip> {
+    const trip: Trip = {
+      ...newTrip,
+      id: this.currentTripId++,
+      coverMediaId: null,
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+    };
+    this.trips.set(trip.id, trip);
+    return trip;
+  }
+
+  async updateTrip(id: number, updates: TripFieldUpdates): Promise<Trip | undefined> {
+    const trip = this.trips.get(id);
+    
+    if (!trip) {
+      return undefined;
+    }
+    
+    const updatedTrip = { ...trip, ...updates, updatedAt: new Date().toISOString() };
+    this.trips.set(id, updatedTrip);
+    return updatedTrip;
+  }
+
+  async deleteTrip(id: number): Promise<void> {
+    this.trips.delete(id);
+    this.entries.forEach((entry, entryId) => {
+      if (entry.tripId === id) {
+        this.entries.set(entryId, { ...entry, tripId: null });
+      }
+    });
+  }
+
+  async getUserIdsWithUngroupedEntries(): Promise<string[]> {
+    const userIds = Array.from(this.entries.values())
+      .filter(entry => !entry.tripId && !entry.deletedAt)
+      .map(entry => entry.userId);
+    return Array.from(new Set(userIds));
+  }
+
+  async getJourneySuggestionsByUserId(userId: string): Promise<JourneySuggestion[]> {
+    return Array.from(this.journeySuggestions.values())
+      .filter(suggestion => suggestion.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getJourneySuggestion(id: number): Promise<JourneySuggestion | undefined> {
+    return this.journeySuggestions.get(id);
+  }
+
+  async createJourneySuggestion(newSuggestion: NewJourneySuggestion): Promise<JourneySuggestion> {
+    const suggestion: JourneySuggestion = {
+      ...newSuggestion,
+      id: this.currentJourneySuggestionId++,
+      createdAt: new Date().toISOString(),
+    };
+    this.journeySuggestions.set(suggestion.id, suggestion);
+    return suggestion;
+  }
+
+  async updateJourneySuggestion(id: number, updates: Pick<JourneySuggestion, "name" | "entryIds">): Promise<JourneySuggestion | undefined> {
+    const suggestion = this.journeySuggestions.get(id);
+    
+    if (!suggestion) {
+      return undefined;
+    }
+    
+    const updatedSuggestion = { ...suggestion, ...updates };
+    this.journeySuggestions.set(id, updatedSuggestion);
+    return updatedSuggestion;
+  }
+
+  async deleteJourneySuggestion(id: number): Promise<void> {
+    this.journeySuggestions.delete(id);
+  }
+
+  async acceptJourneySuggestion(id: number, newTrip: NewTrip, entryIds: number[]): Promise<Trip | undefined> {
+    if (!this.journeySuggestions.delete(id)) {
+      return undefined;
+    }
+    
+    const trip = await this.createTrip(newTrip);
+    for (const entryId of entryIds) {
+      const entry = this.entries.get(entryId);
+      if (entry && entry.tripId === null) {
+        this.entries.set(entryId, { ...entry, tripId: trip.id });
+      }
+    }
+    return trip;
+  }
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getEntriesByUserId(userId: string): Promise<DiaryEntry[]> {
+    return this.db
+      .select()
+      .from(diaryEntries)
+      .where(and(eq(diaryEntries.userId, userId), isNull(diaryEntries.deletedAt)))
+      .orderBy(desc(diaryEntries.createdAt));
+  }
+
+  async getEntriesInBounds(userId: string, bounds: GeoBounds): Promise<DiaryEntry[]> {
+    // The prefixes' cells cover more than the bounds, so check each match
+    const prefixes = geohashPrefixes(bounds);
+    const entries = await this.db
+      .select()
+      .from(diaryEntries)
+      .where(and(
+        eq(diaryEntries.userId, userId),
+        isNull(diaryEntries.deletedAt),
+        or(...prefixes.map((prefix) => like(diaryEntries.geohash, `${prefix}%`))),
+      ))
+      .orderBy(desc(diaryEntries.createdAt));
+    return entries.filter((entry) => entry.location && isWithinBounds(entry.location, bounds));
+  }
+
+  async getTrashedEntriesByUserId(userId: string): Promise<DiaryEntry[]> {
+    return this.db
+      .select()
+      .from(diaryEntries)
+      .where(and(eq(diaryEntries.userId, userId), isNotNull(diaryEntries.deletedAt)))
+      .orderBy(desc(diaryEntries.deletedAt));
+  }
+
+  async getEntry(id: number): Promise<DiaryEntry | undefined> {
+    const [entry] = await this.db.select().from(diaryEntries).where(eq(diaryEntries.id, id));
+    return entry;
+  }
+
+  async createEntry(entryData: NewEntry): Promise<DiaryEntry> {
+    return this.db.transaction(async (tx) => {
+      // Accounts live in Supabase; keep a matching users row so the
+      // diary_entries.user_id foreign key holds.
+      await tx
+        .insert(users)
+        .values({ id: entryData.userId, username: entryData.userId, password: "" })
+        .onConflictDoNothing();
+
+      const [entry] = await tx
+        .insert(diaryEntries)
+        .values({
+          userId: entryData.userId,
+          caption: entryData.caption || 'My travel memory',
+          mediaId: entryData.mediaId,
+          photos: entryData.photos ?? [{ mediaId: entryData.mediaId, caption: null }],
+          location: entryData.location ?? null,
+          place: entryData.place ?? null,
+          geohash: entryData.location ? encodeGeohash(entryData.location) : null,
+          screenInfo: entryData.screenInfo,
+          capturedAt: entryData.capturedAt ?? null,
+          tripId: entryData.tripId ?? null,
+          createdAt: new Date().toISOString(),
+        })
+        .returning();
+      return entry;
+    });
+  }
+
+  async updateEntry(id: number, updates: EntryFieldUpdates, editedBy: string, tripId?: number | null): Promise<DiaryEntry | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [entry] = await tx
+        .select()
+        .from(diaryEntries)
+        .where(eq(diaryEntries.id, id))
+        .for("update");
+      
+      if (!entry) {
+        return undefined;
+      }
+      
+      const changes = diffEntry(entry, updates);
+      const edited = Object.keys(changes).length > 0;
+      const movesTrip = tripId !== undefined && tripId !== entry.tripId;
+      
+      if (!edited && !movesTrip) {
+        return entry;
+      }
+      
+      const timestamp = new Date().toISOString();
+      const [updatedEntry] = await tx
+        .update(diaryEntries)
+        .set({
+          ...(movesTrip ? { tripId } : {}),
+          ...(edited ? { ...withGeohash(updates), updatedAt: timestamp } : {}),
+        })
+        .where(eq(diaryEntries.id, id))
+        .returning();
+      
+      if (edited) {
+        await tx.insert(entryRevisions).values({
+          entryId: id,
+          editedBy,
+          changes,
+          createdAt: timestamp,
+        });
+      }
+      
+      return updatedEntry;
+    });
+  }
+
+  async getRevisionsByEntryId(entryId: number): Promise<EntryRevision[]> {
+    return this.db
+      .select()
+      .from(entryRevisions)
+      .where(eq(entryRevisions.entryId, entryId))
+      .orderBy(desc(entryRevisions.id));
+  }
+
+  async trashEntry(id: number): Promise<DiaryEntry | undefined> {
+    const [entry] = await this.db
+      .update(diaryEntries)
+      .set({ deletedAt: new Date().toISOString() })
+      .where(eq(diaryEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async restoreEntry(id: number): Promise<DiaryEntry | undefined> {
+    const [entry] = await this.db
+      .update(diaryEntries)
+      .set({ deletedAt: null })
+      .where(eq(diaryEntries.id, id))
+      .returning();
+    return entry;
+  }
+
+  async purgeEntry(id: number): Promise<void> {
+    await this.db.delete(diaryEntries).where(eq(diaryEntries.id, id));
+  }
+
+  async getEntriesTrashedBefore(cutoff: string): Promise<DiaryEntry[]> {
+    return this.db.select().from(diaryEntries).where(lt(diaryEntries.deletedAt, cutoff));
+  }
+
+  async getEntriesWithInlineImages(): Promise<DiaryEntry[]> {
+    return this.db
+      .select()
+      .from(diaryEntries)
+      .where(and(isNotNull(diaryEntries.imageUrl), isNull(diaryEntries.mediaId)));
+  }
+
+  async moveEntryImageToMedia(id: number, mediaId: string): Promise<void> {
+    await this.db
+      .update(diaryEntries)
+      .set({ imageUrl: null, mediaId, photos: [{ mediaId, caption: null }] })
+      .where(eq(diaryEntries.id, id));
+  }
+
+  async getEntriesWithoutPlace(): Promise<DiaryEntry[]> {
+    return this.db
+      .select()
+      .from(diaryEntries)
+      .where(and(isNotNull(diaryEntries.location), isNull(diaryEntries.place)));
+  }
+
+  async setEntryPlace(id: number, place: EntryPlace | null): Promise<void> {
+    await this.db.update(diaryEntries).set({ place }).where(eq(diaryEntries.id, id));
+  }
+
+  async getMedia(id: string): Promise<Media | undefined> {
+    const [record] = await this.db.select().from(media).where(eq(media.id, id));
+    return record;
+  }
+
+  async getMediaByIds(ids: string[]): Promise<Media[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.db.select().from(media).where(inArray(media.id, ids));
+  }
+
+  async getMediaWithoutDimensions(): Promise<Media[]> {
+    return this.db.select().from(media).where(isNull(media.width));
+  }
+
+  async createMedia(newMedia: NewMedia): Promise<Media> {
+    // Identical bytes hash to the same id, so keep the first upload's record
+    await this.db
+      .insert(media)
+      .values({ ...newMedia, createdAt: new Date().toISOString() })
+      .onConflictDoNothing();
+    return (await this.getMedia(newMedia.id))!;
+  }
+
+  async deleteUnusedMedia(ids: string[]): Promise<Media[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    // Media ids are hashes, so one turning up in a revision's JSON is a reference to it
+    return this.db
+      .delete(media)
+      .where(and(
+        inArray(media.id, ids),
+        sql`not exists (select 1 from ${diaryEntries} where ${diaryEntries.mediaId} = ${media.id} or ${diaryEntries.photos} @> jsonb_build_array(jsonb_build_object('mediaId', ${media.id})))`,
+        sql`not exists (select 1 from ${entryRevisions} where strpos(${entryRevisions.changes}::text, ${media.id}) > 0)`,
+        sql`not exists (select 1 from ${trips} where ${trips.coverMediaId} = ${media.id})`,
+      ))
+      .returning();
+  }
+
+  async setMediaDimensions(id: string, width: number, height: number): Promise<void> {
+    await this.db.update(media).set({ width, height }).where(eq(media.id, id));
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async createUpload(newUpload: NewUpload): Promise<Upload> {
+    const [upload] = await this.db
+      .insert(uploads)
+      .values({ ...newUpload, createdAt: new Date().toISOString() })
+      .returning();
+    return upload;
+  }
+
+  // Only moves on from the expected offset, so two requests racing to
+  // write the same chunk can't both count it
+  async setUploadProgress(id: string, from: number, progress: UploadProgress): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set(progress)
+      .where(and(eq(uploads.id, id), eq(uploads.received, from)))
+      .returning();
+    return upload;
+  }
+
+  async deleteUpload(id: string): Promise<void> {
+    await this.db.delete(uploads).where(eq(uploads.id, id));
+  }
+
+  async getUploadsCreatedBefore(cutoff: string): Promise<Upload[]> {
+    return this.db.select().from(uploads).where(lt(uploads.createdAt, cutoff));
+  }
+
+  async getShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db.select().from(shareLinks).where(eq(shareLinks.id, id));
+    return link;
+  }
+
+  async getShareLinksByEntryId(entryId: number): Promise<ShareLink[]> {
+    return this.db
+      .select()
+      .from(shareLinks)
+      .where(eq(shareLinks.entryId, entryId))
+      .orderBy(desc(shareLinks.createdAt));
+  }
+
+  async getShareLinksByUserId(userId: string): Promise<ShareLink[]> {
+    const rows = await this.db
+      .select({ link: shareLinks })
+      .from(shareLinks)
+      .innerJoin(diaryEntries, eq(shareLinks.entryId, diaryEntries.id))
+      .where(eq(diaryEntries.userId, userId))
+      .orderBy(desc(shareLinks.createdAt));
+    return rows.map(row => row.link);
+  }
+
+  async createShareLink(link: NewShareLink): Promise<ShareLink> {
+    const [shareLink] = await this.db
+      .insert(shareLinks)
+      .values({ ...link, createdAt: new Date().toISOString() })
+      .returning();
+    return shareLink;
+  }
+
+  async revokeShareLink(id: string): Promise<ShareLink | undefined> {
+    const [link] = await this.db
+      .update(shareLinks)
+      .set({ revokedAt: sql`coalesce(${shareLinks.revokedAt}, ${new Date().toISOString()})` })
+      .where(eq(shareLinks.id, id))
+      .returning();
+    return link;
+  }
+
+  async recordShareLinkView(id: string): Promise<void> {
+    await this.db
+      .update(shareLinks)
+      .set({ viewCount: sql`${shareLinks.viewCount} + 1` })
+      .where(eq(shareLinks.id, id));
+  }
+
+  async getPrivacyZonesByUserId(userId: string): Promise<PrivacyZone[]> {
+    return this.db
+      .select()
+      .from(privacyZones)
+      .where(eq(privacyZones.userId, userId))
+      .orderBy(privacyZones.createdAt);
+  }
+
+  async getPrivacyZone(id: number): Promise<PrivacyZone | undefined> {
+    const [zone] = await this.db.select().from(privacyZones).where(eq(privacyZones.id, id));
+    return zone;
+  }
+
+  async createPrivacyZone(zone: NewPrivacyZone): Promise<PrivacyZone> {
+    const [privacyZone] = await this.db
+      .insert(privacyZones)
+      .values({ ...zone, createdAt: new Date().toISOString() })
+      .returning();
+    return privacyZone;
+  }
+
+  async deletePrivacyZone(id: number): Promise<void> {
+    await this.db.delete(privacyZones).where(eq(privacyZones.id, id));
+  }
+
+  async getTripsByUserId(userId: string): Promise<Trip[]> {
+    return this.db
+      .select()
+      .from(trips)
+      .where(eq(trips.userId, userId))
+      .orderBy(desc(trips.createdAt));
+  }
+
+  async getTrip(id: number): Promise<Trip | undefined> {
+    const [trip] = await this.db.select().from(trips).where(eq(trips.id, id));
+    return trip;
+  }
+
+  async getEntriesByTripId(tripId: number): Promise<DiaryEntry[]> {
+    return this.db
+      .select()
+      .from(diaryEntries)
+      .where(and(eq(diaryEntries.tripId, tripId), isNull(diaryEntries.deletedAt)));
+  }
+
+  async createTrip(newTrip: NewTrip): Promise<Trip> {
+    const [trip] = await this.db
+      .insert(trips)
+      .values({ ...newTrip, createdAt: new Date().toISOString() })
+      .returning();
+    return trip;
+  }
+
+  async updateTrip(id: number, updates: TripFieldUpdates): Promise<Trip | undefined> {
+    const [trip] = await this.db
+      .update(trips)
+      .set({ ...updates, updatedAt: new Date().toISOString() })
+      .where(eq(trips.id, id))
+      .returning();
+    return trip;
+  }
+
+  async deleteTrip(id: number): Promise<void> {
+    // The foreign key ungroups the trip's entries
+    await this.db.delete(trips).where(eq(trips.id, id));
+  }
+
+  async getUserIdsWithUngroupedEntries(): Promise<string[]> {
+    const rows = await this.db
+      .selectDistinct({ userId: diaryEntries.userId })
+      .from(diaryEntries)
+      .where(and(isNull(diaryEntries.tripId), isNull(diaryEntries.deletedAt)));
+    return rows.map(row => row.userId);
+  }
+
+  async getJourneySuggestionsByUserId(userId: string): Promise<JourneySuggestion[]> {
+    return this.db
+      .select()
+      .from(journeySuggestions)
+      .where(eq(journeySuggestions.userId, userId))
+      .orderBy(journeySuggestions.id);
+  }
+
+  async getJourneySuggestion(id: number): Promise<JourneySuggestion | undefined> {
+    const [suggestion] = await this.db.select().from(journeySuggestions).where(eq(journeySuggestions.id, id));
+    return suggestion;
+  }
+
+  async createJourneySuggestion(newSuggestion: NewJourneySuggestion): Promise<JourneySuggestion> {
+    const [suggestion] = await this.db
+      .insert(journeySuggestions)
+      .values({ ...newSuggestion, createdAt: new Date().toISOString() })
+      .returning();
+    return suggestion;
+  }
+
+  async updateJourneySuggestion(id: number, updates: Pick<JourneySuggestion, "name" | "entryIds">): Promise<JourneySuggestion | undefined> {
+    const [suggestion] = await this.db
+      .update(journeySuggestions)
+      .set(updates)
+      .where(eq(journeySuggestions.id, id))
+      .returning();
+    return suggestion;
+  }
+
+  async deleteJourneySuggestion(id: number): Promise<void> {
+    await this.db.delete(journeySuggestions).where(eq(journeySuggestions.id, id));
+  }
+
+  async acceptJourneySuggestion(id: number, newTrip: NewTrip, entryIds: number[]): Promise<Trip | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Deleting the suggestion first means accepting it twice at once makes one trip
+      const [suggestion] = await tx
+        .delete(journeySuggestions)
+        .where(eq(journeySuggestions.id, id))
+        .returning({ id: journeySuggestions.id });
+      
+      if (!suggestion) {
+        return undefined;
+      }
+      
+      const [trip] = await tx
+        .insert(trips)
+        .values({ ...newTrip, createdAt: new Date().toISOString() })
+        .returning();
+      
+      await tx
+        .update(diaryEntries)
+        .set({ tripId: trip.id })
+        .where(and(inArray(diaryEntries.id, entryIds), isNull(diaryEntries.tripId)));
+      
+      return trip;
+    });
   }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when DATABASE_URL is configured, otherwise keep
+// entries in memory for local development.
+export const storage: IStorage = db ? new DrizzleStorage(db) : new MemStorage();
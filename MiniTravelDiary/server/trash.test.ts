@@ -0,0 +1,86 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { EntryRevision } from "@shared/schema";
+import { revisionMediaIds } from "./revisions";
+import { storage } from "./storage";
+import { purgeEntry, purgeExpiredTrash, trashRetentionDays } from "./trash";
+
+const screenInfo = { width: 390, height: 844, orientation: "portrait" };
+const day = 24 * 60 * 60 * 1000;
+
+async function createPhoto(char: string) {
+  return (await storage.createMedia({ id: char.repeat(64), contentType: "image/jpeg", size: 1, uploadedBy: "alice" })).id;
+}
+
+async function createEntry(mediaId: string) {
+  return storage.createEntry({ userId: "alice", caption: "Harbour at dusk", mediaId, location: null, screenInfo });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("purgeExpiredTrash", () => {
+  it("purges only entries trashed longer ago than the retention period", async () => {
+    const photo = await createPhoto("a");
+    const [expired, recent, live] = [await createEntry(photo), await createEntry(photo), await createEntry(photo)];
+    const now = new Date("2024-06-01T00:00:00Z");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(now.getTime() - (trashRetentionDays + 1) * day);
+    await storage.trashEntry(expired.id);
+    vi.setSystemTime(now.getTime() - (trashRetentionDays - 1) * day);
+    await storage.trashEntry(recent.id);
+
+    expect(await purgeExpiredTrash(now)).toBe(1);
+
+    expect(await storage.getEntry(expired.id)).toBeUndefined();
+    expect(await storage.getEntry(recent.id)).toBeDefined();
+    expect(await storage.getEntry(live.id)).toBeDefined();
+    expect(await purgeExpiredTrash(now)).toBe(0);
+  });
+});
+
+describe("purgeEntry", () => {
+  it("deletes the entry's photos, including ones only its history used", async () => {
+    const [old, current] = [await createPhoto("b"), await createPhoto("c")];
+    const entry = await createEntry(old);
+    await storage.updateEntry(entry.id, { mediaId: current, photos: [{ mediaId: current, caption: null }] }, "alice");
+
+    await purgeEntry((await storage.getEntry(entry.id))!);
+
+    expect(await storage.getEntry(entry.id)).toBeUndefined();
+    expect(await storage.getRevisionsByEntryId(entry.id)).toEqual([]);
+    expect(await storage.getMedia(old)).toBeUndefined();
+    expect(await storage.getMedia(current)).toBeUndefined();
+  });
+
+  it("keeps a photo another entry or a trip cover still uses", async () => {
+    const [shared, cover] = [await createPhoto("d"), await createPhoto("e")];
+    const entry = await createEntry(shared);
+    await createEntry(shared);
+    const withCover = await createEntry(cover);
+    const trip = await storage.createTrip({ userId: "alice", name: "Lisbon", description: null, startDate: null, endDate: null });
+    await storage.updateTrip(trip.id, { coverMediaId: cover });
+
+    await purgeEntry(entry);
+    await purgeEntry(withCover);
+
+    expect(await storage.getMedia(shared)).toBeDefined();
+    expect(await storage.getMedia(cover)).toBeDefined();
+  });
+});
+
+describe("revisionMediaIds", () => {
+  it("lists the photos a revision changed from and to", () => {
+    const [a, b, c] = ["a", "b", "c"].map((char) => char.repeat(64));
+    const revision = (changes: EntryRevision["changes"]): EntryRevision =>
+      ({ id: 1, entryId: 1, editedBy: "alice", changes, createdAt: "2024-05-02T09:00:00.000Z" });
+
+    const ids = revisionMediaIds(revision({
+      mediaId: { from: a, to: b },
+      photos: { from: [{ mediaId: a, caption: null }], to: [{ mediaId: b, caption: null }, { mediaId: c, caption: "Tram" }] },
+    }));
+
+    expect(new Set(ids)).toEqual(new Set([a, b, c]));
+    expect(revisionMediaIds(revision({ caption: { from: "x", to: "y" } }))).toEqual([]);
+  });
+});
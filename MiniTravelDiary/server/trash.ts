@@ -0,0 +1,52 @@
+import type { DiaryEntry } from "@shared/schema";
+import { photoMediaIds } from "./entry-photos";
+import { deleteUnusedMedia } from "./media";
+import { revisionMediaIds } from "./revisions";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+// How long trashed entries are kept before being purged for good
+export const trashRetentionDays = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+
+/**
+ * Delete `entry` for good, along with any photo it or its revisions used that
+ * nothing else does.
+ */
+export async function purgeEntry(entry: DiaryEntry) {
+  const revisions = await storage.getRevisionsByEntryId(entry.id);
+  const mediaIds = [...photoMediaIds(entry), ...revisions.flatMap(revisionMediaIds)];
+
+  await storage.purgeEntry(entry.id);
+  await deleteUnusedMedia(mediaIds);
+}
+
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - trashRetentionDays * 24 * 60 * 60 * 1000);
+  const expired = await storage.getEntriesTrashedBefore(cutoff.toISOString());
+
+  for (const entry of expired) {
+    await purgeEntry(entry);
+  }
+  return expired.length;
+}
+
+/**
+ * Purge expired trash now and then every hour for the life of the process.
+ */
+export function startTrashPurgeJob() {
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        log(`purged ${purged} entries from trash`, "trash");
+      }
+    } catch (error) {
+      console.error('Error purging trash:', error);
+    }
+  };
+
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
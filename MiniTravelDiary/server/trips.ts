@@ -0,0 +1,59 @@
+import type { DiaryEntry, Trip, TripSummary } from "@shared/schema";
+import { photoMediaIds } from "./entry-photos";
+import { withImageVariants } from "./media";
+
+/**
+ * When `entry`'s photo was taken, as the camera's local date and time. Capture
+ * times carry no reliable offset, so entries are compared by this alone.
+ */
+export function takenAt(entry: Pick<DiaryEntry, "capturedAt" | "createdAt">) {
+  return (entry.capturedAt ?? entry.createdAt).slice(0, 19);
+}
+
+/**
+ * Order entries by when their photo was taken, oldest first.
+ */
+export function sortChronologically<T extends Pick<DiaryEntry, "capturedAt" | "createdAt">>(entries: T[]): T[] {
+  return [...entries].sort((a, b) => takenAt(a).localeCompare(takenAt(b)));
+}
+
+/**
+ * Whether `mediaId` is one of the photos of `entries`, so it can be a trip's cover.
+ */
+export function isTripPhoto(mediaId: string, entries: DiaryEntry[]) {
+  return entries.some((entry) => photoMediaIds(entry).includes(mediaId));
+}
+
+/**
+ * Summarize each trip from its owner's `entries`. A trip's cover is the photo
+ * the owner picked, as long as it still belongs to one of the trip's entries,
+ * and otherwise the earliest entry's cover.
+ */
+export async function toTripSummaries(trips: Trip[], entries: DiaryEntry[]): Promise<TripSummary[]> {
+  const grouped = trips.map((trip) => {
+    const tripEntries = sortChronologically(entries.filter((entry) => entry.tripId === trip.id));
+    const first = tripEntries.find((entry) => entry.mediaId || entry.imageUrl);
+    const cover = trip.coverMediaId && isTripPhoto(trip.coverMediaId, tripEntries)
+      ? { mediaId: trip.coverMediaId, imageUrl: null }
+      : first && { mediaId: first.mediaId, imageUrl: first.imageUrl };
+    return { trip, entryCount: tripEntries.length, cover };
+  });
+
+  // Variants come back in the same order, one per trip
+  const covers = await withImageVariants(grouped.map(({ cover }) => ({
+    mediaId: cover?.mediaId ?? null,
+    imageUrl: cover?.imageUrl ?? null,
+    photos: [],
+  })));
+
+  return grouped.map(({ trip, entryCount, cover }, index) => ({
+    ...trip,
+    entryCount,
+    cover: cover ? { mediaId: cover.mediaId, imageUrl: cover.imageUrl, variants: covers[index].variants } : null,
+  }));
+}
+
+export async function toTripSummary(trip: Trip, entries: DiaryEntry[]) {
+  const [summary] = await toTripSummaries([trip], entries);
+  return summary;
+}
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ImageValidationError } from "./images";
+import { saveMedia } from "./media";
+import { storage } from "./storage";
+import {
+  cancelUpload,
+  chunkChecksum,
+  completeUpload,
+  parseChunkChecksum,
+  startUpload,
+  toUploadStatus,
+  uploadChunkBytes,
+  writeUploadChunk,
+} from "./uploads";
+
+const stored = vi.hoisted(() => new Map<string, Buffer>());
+
+// Keep the media store in memory and stand in for saving the finished image,
+// so the test sees exactly which bytes were assembled
+vi.mock("./media", () => ({
+  mediaStore: {
+    put: async (key: string, data: Buffer) => {
+      stored.set(key, data);
+    },
+    get: async (key: string) => stored.get(key),
+    delete: async (key: string) => {
+      stored.delete(key);
+    },
+  },
+  saveMedia: vi.fn(async (data: Buffer) => ({ id: data.toString() })),
+}));
+
+beforeEach(() => {
+  stored.clear();
+  vi.mocked(saveMedia).mockClear();
+});
+
+describe("chunk checksums", () => {
+  it("are the base64 sha256 of the chunk", () => {
+    expect(chunkChecksum(Buffer.from("hello"))).toBe("LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=");
+  });
+
+  it("are read from a sha256 Upload-Checksum header", () => {
+    expect(parseChunkChecksum("sha256 LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=")).toBe("LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=");
+    expect(parseChunkChecksum("  sha256 YWJj  ")).toBe("YWJj");
+  });
+
+  it("aren't read from a missing header or one using another algorithm", () => {
+    expect(parseChunkChecksum(undefined)).toBeUndefined();
+    expect(parseChunkChecksum("")).toBeUndefined();
+    expect(parseChunkChecksum("md5 XUFAKrxLKna5cZ2REBfFkg==")).toBeUndefined();
+    expect(parseChunkChecksum("sha256 not base64!")).toBeUndefined();
+  });
+});
+
+describe("resuming an upload", () => {
+  it("carries on from what the server has after a dropped connection", async () => {
+    const upload = await startUpload("alice", "image/jpeg", 11);
+    await writeUploadChunk(upload, Buffer.from("hello "));
+
+    // The uploader lost the response, so asks where to pick up from
+    const resumed = await storage.getUpload(upload.id);
+    expect(toUploadStatus(resumed!)).toEqual({ id: upload.id, size: 11, received: 6, chunkSize: uploadChunkBytes });
+
+    const full = await writeUploadChunk(resumed!, Buffer.from("world"));
+    expect((await completeUpload(full!)).id).toBe("hello world");
+  });
+
+  it("doesn't count a chunk sent again after it was received", async () => {
+    const upload = await startUpload("alice", "image/jpeg", 11);
+    const first = await writeUploadChunk(upload, Buffer.from("hello "));
+
+    expect(await writeUploadChunk(upload, Buffer.from("hello "))).toBeUndefined();
+    expect(await storage.getUpload(upload.id)).toEqual(first);
+    expect(stored.size).toBe(1);
+  });
+});
+
+describe("an upload", () => {
+  it("keeps its chunks in the media store until it is complete", async () => {
+    const upload = await startUpload("alice", "image/jpeg", 11);
+
+    const first = await writeUploadChunk(upload, Buffer.from("hello "));
+    const second = await writeUploadChunk(first!, Buffer.from("world"));
+    expect(second).toMatchObject({ received: 11, chunks: [{ offset: 0 }, { offset: 6 }] });
+    expect(stored.size).toBe(2);
+
+    const media = await completeUpload(second!);
+
+    expect(media).toEqual({ id: "hello world" });
+    expect(await storage.getUpload(upload.id)).toBeUndefined();
+    expect(stored.size).toBe(0);
+  });
+
+  it("counts a chunk only once when two requests race to send it", async () => {
+    const upload = await startUpload("alice", "image/jpeg", 5);
+
+    const results = await Promise.all([
+      writeUploadChunk(upload, Buffer.from("hello")),
+      writeUploadChunk(upload, Buffer.from("HELLO")),
+    ]);
+
+    const winners = results.filter((result) => result !== undefined);
+    expect(winners).toHaveLength(1);
+    expect(await storage.getUpload(upload.id)).toEqual(winners[0]);
+    expect(stored.size).toBe(1);
+    expect((await completeUpload(winners[0]!)).id).toBe("hello");
+  });
+
+  it("takes its last chunk again when finishing fails", async () => {
+    const upload = await startUpload("alice", "image/jpeg", 11);
+    const first = await writeUploadChunk(upload, Buffer.from("hello "));
+    const full = await writeUploadChunk(first!, Buffer.from("world"));
+    vi.mocked(saveMedia).mockRejectedValueOnce(new Error("media store unavailable"));
+
+    await expect(completeUpload(full!)).rejects.toThrow("media store unavailable");
+
+    const rewound = await storage.getUpload(upload.id);
+    expect(rewound).toMatchObject({ received: 6, chunks: [{ offset: 0 }] });
+    const resent = await writeUploadChunk(rewound!, Buffer.from("world"));
+    expect((await completeUpload(resent!)).id).toBe("hello world");
+  });
+
+  it("is left for the caller to cancel when the image is rejected", async () => {
+    const upload = await startUpload("alice", "image/jpeg", 5);
+    const full = await writeUploadChunk(upload, Buffer.from("hello"));
+    vi.mocked(saveMedia).mockRejectedValueOnce(new ImageValidationError(415, "type_mismatch", "File is not a image/jpeg image"));
+
+    await expect(completeUpload(full!)).rejects.toThrow(ImageValidationError);
+    expect(await storage.getUpload(upload.id)).toEqual(full);
+
+    await cancelUpload(full!);
+    expect(await storage.getUpload(upload.id)).toBeUndefined();
+    expect(stored.size).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import type { Upload, UploadChunk, UploadedMedia, UploadStatus } from "@shared/schema";
+import { ImageValidationError } from "./images";
+import { mediaStore, saveMedia } from "./media";
+import { storage } from "./storage";
+import { log } from "./vite";
+
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Unfinished uploads are abandoned after this long
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+export const uploadChunkBytes = Number(process.env.UPLOAD_CHUNK_BYTES) || 1024 * 1024;
+
+// Chunks are kept in the media store, like the upload's state is kept in the
+// database, so whichever server gets the next chunk can carry on
+function chunkKey(uploadId: string, chunk: UploadChunk) {
+  return `${uploadId}-${chunk.offset}-${chunk.sha256}`;
+}
+
+export function toUploadStatus(upload: Upload, media?: UploadedMedia): UploadStatus {
+  return {
+    id: upload.id,
+    size: upload.size,
+    received: upload.received,
+    chunkSize: uploadChunkBytes,
+    ...(media && { media }),
+  };
+}
+
+/**
+ * Parse an `Upload-Checksum: sha256 <base64 digest>` header. Returns
+ * undefined if it is missing or uses another algorithm.
+ */
+export function parseChunkChecksum(header: string | undefined) {
+  const match = header && /^sha256 ([A-Za-z0-9+/]+=*)$/.exec(header.trim());
+  return match ? match[1] : undefined;
+}
+
+export function chunkChecksum(data: Buffer) {
+  return createHash("sha256").update(data).digest("base64");
+}
+
+export async function startUpload(userId: string, contentType: string, size: number): Promise<Upload> {
+  return storage.createUpload({ id: uuidv4(), userId, contentType, size });
+}
+
+/**
+ * Store `data` as the chunk at the upload's current offset. Returns the
+ * updated upload, or undefined if another request wrote this chunk first.
+ */
+export async function writeUploadChunk(upload: Upload, data: Buffer): Promise<Upload | undefined> {
+  const chunk = { offset: upload.received, sha256: createHash("sha256").update(data).digest("hex") };
+  await mediaStore.put(chunkKey(upload.id, chunk), data, "application/octet-stream");
+
+  const updatedUpload = await storage.setUploadProgress(upload.id, upload.received, {
+    received: upload.received + data.length,
+    chunks: [...upload.chunks, chunk],
+  });
+
+  // A racing request that sent the same bytes stored the same key, which the
+  // winner still needs
+  if (!updatedUpload) {
+    const current = await storage.getUpload(upload.id);
+    if (!current?.chunks.some((c) => c.offset === chunk.offset && c.sha256 === chunk.sha256)) {
+      await mediaStore.delete(chunkKey(upload.id, chunk));
+    }
+  }
+  return updatedUpload;
+}
+
+async function readUpload(upload: Upload): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for (const chunk of upload.chunks) {
+    const part = await mediaStore.get(chunkKey(upload.id, chunk));
+    if (!part) {
+      throw new Error(`Chunk at ${chunk.offset} of upload ${upload.id} is missing`);
+    }
+    parts.push(part);
+  }
+  return Buffer.concat(parts).subarray(0, upload.size);
+}
+
+/**
+ * Forget the last chunk of `upload`, so that sending it again finishes the
+ * upload again.
+ */
+async function rewindUpload(upload: Upload) {
+  const last = upload.chunks[upload.chunks.length - 1];
+  await storage.setUploadProgress(upload.id, upload.received, {
+    received: last.offset,
+    chunks: upload.chunks.slice(0, -1),
+  });
+  await mediaStore.delete(chunkKey(upload.id, last));
+}
+
+/**
+ * Hand a fully received upload to the media store and clean it up. If that
+ * fails for any reason but the image being rejected, the last chunk is
+ * forgotten so the uploader can resend it and try again.
+ */
+export async function completeUpload(upload: Upload): Promise<UploadedMedia> {
+  let media: UploadedMedia;
+  try {
+    media = await saveMedia(await readUpload(upload), upload.contentType, upload.userId);
+  } catch (error) {
+    if (!(error instanceof ImageValidationError)) {
+      await rewindUpload(upload);
+    }
+    throw error;
+  }
+
+  await cancelUpload(upload);
+  return media;
+}
+
+export async function cancelUpload(upload: Upload) {
+  await storage.deleteUpload(upload.id);
+  for (const chunk of upload.chunks) {
+    await mediaStore.delete(chunkKey(upload.id, chunk));
+  }
+}
+
+export async function purgeStaleUploads(now = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - UPLOAD_TTL_MS).toISOString();
+  const stale = await storage.getUploadsCreatedBefore(cutoff);
+
+  for (const upload of stale) {
+    await cancelUpload(upload);
+  }
+  return stale.length;
+}
+
+/**
+ * Remove abandoned uploads now and then every hour for the life of the process.
+ */
+export function startUploadCleanupJob() {
+  const run = async () => {
+    try {
+      const purged = await purgeStaleUploads();
+      if (purged > 0) {
+        log(`removed ${purged} abandoned uploads`, "uploads");
+      }
+    } catch (error) {
+      console.error('Error removing abandoned uploads:', error);
+    }
+  };
+
+  run();
+  setInterval(run, CLEANUP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,23 @@
+// Geometry shared by the server and the client
+
+interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points, in meters (haversine).
+ */
+export function distanceMeters(a: LatLng, b: LatLng) {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
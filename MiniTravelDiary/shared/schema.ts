@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, doublePrecision, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,31 @@ const locationSchema = z.object({
   lng: z.number(),
 });
 
+// One photo in an entry's gallery
+export interface EntryPhoto {
+  mediaId: string;
+  caption: string | null;
+}
+
+// The named place an entry's location is in, looked up in the bundled
+// gazetteer (see server/gazetteer.ts)
+export interface EntryPlace {
+  city: string;
+  region: string | null;
+  country: string;
+  countryCode: string;
+}
+
+const placeSchema = z.object({
+  city: z.string().trim().min(1).max(200),
+  region: z.string().trim().max(200).nullable(),
+  country: z.string().trim().min(1).max(200),
+  countryCode: z.string().length(2),
+});
+
+// A place found by name, with where it is
+export type PlaceSearchResult = EntryPlace & { lat: number; lng: number };
+
 // Define the schema for screen information
 const screenInfoSchema = z.object({
   width: z.number(),
@@ -21,16 +46,157 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Image formats accepted for upload
+export const allowedImageTypes = ["image/jpeg", "image/png", "image/webp", "image/gif"] as const;
+export type AllowedImageType = typeof allowedImageTypes[number];
+
+// What an uploaded photo's EXIF data says about where and when it was taken.
+// capturedAt is ISO 8601, without an offset if the camera didn't record one.
+export interface PhotoExif {
+  capturedAt: string | null;
+  location: { lat: number; lng: number; altitude: number | null } | null;
+  cameraModel: string | null;
+  orientation: number | null;
+}
+
+// Uploaded images, keyed by the sha256 of their bytes. The bytes themselves
+// live in the media store (see server/media.ts), not in the database.
+export const media = pgTable("media", {
+  id: text("id").primaryKey(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  // Display dimensions, after applying EXIF orientation. Null if the image
+  // could not be decoded, in which case no variants are served.
+  width: integer("width"),
+  height: integer("height"),
+  uploadedBy: text("uploaded_by").notNull(),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// A received piece of an upload, kept in the media store under its offset
+// and the hex sha256 of its bytes
+export type UploadChunk = { offset: number; sha256: string };
+
+// An image upload in progress, sent in chunks so it can resume after a
+// dropped connection. Removed once the upload completes.
+export const uploads = pgTable("uploads", {
+  id: text("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  received: integer("received").notNull().default(0),
+  chunks: jsonb("chunks").$type<UploadChunk[]>().notNull().default([]),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// A named journey that entries can be grouped into. Dates are YYYY-MM-DD.
+export const trips = pgTable("trips", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+  startDate: text("start_date"),
+  endDate: text("end_date"),
+  // One of the trip's entries' photos; without one the first entry's cover is shown
+  coverMediaId: text("cover_media_id").references(() => media.id),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updated_at"),
+});
+
 export const diaryEntries = pgTable("diary_entries", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull().references(() => users.id),
   caption: text("caption").notNull(),
-  imageUrl: text("image_url").notNull(),
+  // Inline data URL from before the media store; new entries use mediaId
+  imageUrl: text("image_url"),
+  // The cover photo, shown wherever the entry is listed
+  mediaId: text("media_id").references(() => media.id),
+  // Every photo in the entry, in gallery order; includes the cover
+  photos: jsonb("photos").$type<EntryPhoto[]>().notNull().default([]),
   location: jsonb("location").$type<z.infer<typeof locationSchema> | null>(),
+  // Where the location is, by name; null without a location or nothing nearby
+  place: jsonb("place").$type<EntryPlace | null>(),
+  // The location's geohash, kept in step with it so nearby entries can be
+  // found by prefix
+  geohash: text("geohash"),
   screenInfo: jsonb("screen_info").$type<z.infer<typeof screenInfoSchema>>().notNull(),
-  createdAt: text("created_at").notNull().default(new Date().toISOString()),
-  shareId: text("share_id").unique(),
-  isShared: boolean("is_shared").notNull().default(false),
+  // When the photo was taken, if known; createdAt is when it was uploaded
+  capturedAt: text("captured_at"),
+  // Deleting a trip leaves its entries in place, just ungrouped
+  tripId: integer("trip_id").references(() => trips.id, { onDelete: "set null" }),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+  updatedAt: text("updated_at"),
+  // Set when the entry is moved to the trash; purged after the retention window
+  deletedAt: text("deleted_at"),
+}, (table) => [
+  // Prefix searches need the pattern ops, whatever the database's collation
+  index("diary_entries_user_geohash_idx").on(table.userId, table.geohash.op("text_pattern_ops")),
+]);
+
+// Fields that are tracked in an entry's revision history
+export const revisionFields = ["caption", "imageUrl", "mediaId", "photos", "location", "place", "capturedAt"] as const;
+export type RevisionField = typeof revisionFields[number];
+
+// Tracked field values to write to an entry, as applied by storage
+export type EntryFieldUpdates = Partial<Pick<typeof diaryEntries.$inferSelect, RevisionField>>;
+
+export type RevisionChanges = {
+  [K in RevisionField]?: {
+    from: typeof diaryEntries.$inferSelect[K];
+    to: typeof diaryEntries.$inferSelect[K];
+  };
+};
+
+// One row per edit, recording who changed which fields from what to what
+export const entryRevisions = pgTable("entry_revisions", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => diaryEntries.id, { onDelete: "cascade" }),
+  editedBy: text("edited_by").notNull(),
+  changes: jsonb("changes").$type<RevisionChanges>().notNull(),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// How precisely a share link reveals where an entry was made. Only the owner
+// ever sees the exact location unless they choose "exact".
+export const locationPrecisions = ["exact", "neighborhood", "city", "hidden"] as const;
+export type LocationPrecision = typeof locationPrecisions[number];
+
+// Each entry can have any number of independent share links
+export const shareLinks = pgTable("share_links", {
+  id: text("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => diaryEntries.id, { onDelete: "cascade" }),
+  label: text("label"),
+  passphraseHash: text("passphrase_hash"),
+  expiresAt: text("expires_at"),
+  viewCount: integer("view_count").notNull().default(0),
+  locationPrecision: text("location_precision").$type<LocationPrecision>().notNull().default("neighborhood"),
+  // Hide what was read from the photo's EXIF data, such as when it was taken
+  stripExif: boolean("strip_exif").notNull().default(true),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+  revokedAt: text("revoked_at"),
+});
+
+// A circle around a sensitive place such as home or work. Entries made inside
+// one never reveal their location to anyone but their owner.
+export const privacyZones = pgTable("privacy_zones", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  label: text("label").notNull(),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  radiusMeters: integer("radius_meters").notNull(),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
+});
+
+// A journey proposed by clustering a user's entries that aren't in a trip yet.
+// Accepting one turns it into a trip.
+export const journeySuggestions = pgTable("journey_suggestions", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  // Oldest first; entries that have since joined a trip or been trashed are dropped
+  entryIds: jsonb("entry_ids").$type<number[]>().notNull(),
+  createdAt: text("created_at").notNull().$defaultFn(() => new Date().toISOString()),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -38,17 +204,230 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+const mediaIdSchema = z.string().regex(/^[0-9a-f]{64}$/, { message: 'Please upload a photo' });
+
+export const maxEntryPhotos = 20;
+
+const entryPhotosSchema = z
+  .array(z.object({
+    mediaId: mediaIdSchema,
+    caption: z.string().trim().max(200).nullish().transform((caption) => caption || null),
+  }))
+  .min(1, { message: 'Please upload a photo' })
+  .max(maxEntryPhotos, { message: `An entry can have at most ${maxEntryPhotos} photos` })
+  .refine((photos) => new Set(photos.map((photo) => photo.mediaId)).size === photos.length, {
+    message: 'Each photo can only be added once',
+  });
+
 // First create the base schema
-const baseEntrySchema = createInsertSchema(diaryEntries)
-  .omit({ id: true, createdAt: true });
+const baseEntrySchema = createInsertSchema(diaryEntries, {
+  location: locationSchema.nullable().optional(),
+  screenInfo: screenInfoSchema,
+  photos: entryPhotosSchema.optional(),
+  place: placeSchema.nullable().optional(),
+  capturedAt: z.string().datetime({ offset: true, local: true }).nullable().optional(),
+})
+  .omit({ id: true, imageUrl: true, geohash: true, createdAt: true, updatedAt: true, deletedAt: true })
+  .extend({ tripId: z.number().int().positive().nullable().optional() });
 
-// Then extend it with captionText
-export const insertEntrySchema = baseEntrySchema.extend({
-  captionText: z.string().optional(),
-});
+// A named place is sent along with the coordinates it names. Without one the
+// server looks the place up from the coordinates.
+const placeHasLocation = (entry: { location?: unknown; place?: unknown }) => !entry.place || !!entry.location;
+const placeHasLocationError = { message: 'A place needs a location', path: ['place'] };
+
+// Then extend it with captionText. Without a photo list the cover is the
+// only photo.
+export const insertEntrySchema = baseEntrySchema
+  .extend({
+    mediaId: mediaIdSchema,
+    captionText: z.string().optional(),
+  })
+  .refine((entry) => !entry.photos || entry.photos.some((photo) => photo.mediaId === entry.mediaId), {
+    message: 'The cover must be one of the photos',
+    path: ['mediaId'],
+  })
+  .refine(placeHasLocation, placeHasLocationError);
+
+// Fields an owner may change after creating an entry
+export const updateEntrySchema = baseEntrySchema
+  .pick({ caption: true, mediaId: true, photos: true, location: true, place: true, capturedAt: true, tripId: true })
+  .partial()
+  .extend({
+    caption: z.string().trim().min(1, { message: 'Caption cannot be empty' }).optional(),
+    mediaId: mediaIdSchema.optional(),
+  })
+  .strict()
+  .refine((updates) => !updates.photos || !updates.mediaId || updates.photos.some((photo) => photo.mediaId === updates.mediaId), {
+    message: 'The cover must be one of the photos',
+    path: ['mediaId'],
+  })
+  .refine(placeHasLocation, placeHasLocationError);
+
+// "1.5,2" as [1.5, 2]; anything that isn't a number fails the tuple it is piped into
+const numberListSchema = z.string().transform((value) => value.split(',').map((part) => (part.trim() ? Number(part) : NaN)));
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+// Filters on listing entries: within `radiusKm` of `near` ("lat,lng"), or
+// inside `bbox` ("west,south,east,north"; west > east crosses the antimeridian)
+export const entriesQuerySchema = z.object({
+  near: numberListSchema.pipe(z.tuple([latitudeSchema, longitudeSchema])).optional(),
+  radiusKm: z.coerce.number().positive().max(20040).optional(),
+  bbox: numberListSchema.pipe(z.tuple([longitudeSchema, latitudeSchema, longitudeSchema, latitudeSchema])).optional(),
+})
+  .refine((query) => !query.near === (query.radiusKm === undefined), {
+    message: 'near and radiusKm must be given together',
+    path: ['radiusKm'],
+  })
+  .refine((query) => !query.near || !query.bbox, {
+    message: 'Filter by near or by bbox, not both',
+    path: ['bbox'],
+  })
+  .refine((query) => !query.bbox || query.bbox[1] <= query.bbox[3], {
+    message: 'The bbox cannot end south of where it starts',
+    path: ['bbox'],
+  });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// Resized copies of every uploaded image, from smallest to largest
+export const imageVariantNames = ["thumb", "medium", "full"] as const;
+export type ImageVariantName = typeof imageVariantNames[number];
+
+export interface ImageVariant {
+  width: number;
+  height: number;
+  url: string;
+  webpUrl: string;
+}
+
+export type ImageVariants = Record<ImageVariantName, ImageVariant>;
+
 export type InsertDiaryEntry = z.infer<typeof insertEntrySchema>;
-export type DiaryEntry = typeof diaryEntries.$inferSelect;
+export type UpdateDiaryEntry = z.infer<typeof updateEntrySchema>;
+// Entries served by the API carry the variants of their cover image and of
+// each photo (keyed by media ID), and, for their owner, the privacy zone their
+// location falls in
+export type DiaryEntry = typeof diaryEntries.$inferSelect & {
+  variants?: ImageVariants | null;
+  photoVariants?: Record<string, ImageVariants | null>;
+  privacyZone?: Pick<PrivacyZone, "id" | "label"> | null;
+};
+
+export const insertShareLinkSchema = z.object({
+  label: z.string().trim().max(100).optional(),
+  expiresAt: z.string().datetime().nullable().optional(),
+  passphrase: z.string().min(4, { message: 'Passphrase must be at least 4 characters long' }).optional(),
+  locationPrecision: z.enum(locationPrecisions).default("neighborhood"),
+  stripExif: z.boolean().default(true),
+});
+
+const tripDateSchema = z.string().date().nullable().optional();
+
+const tripFieldsSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Give the trip a name' }).max(100),
+  description: z.string().trim().max(2000).nullable().optional().transform((description) => description || null),
+  startDate: tripDateSchema,
+  endDate: tripDateSchema,
+});
+
+const endsAfterStart = (trip: { startDate?: string | null; endDate?: string | null }) =>
+  !trip.startDate || !trip.endDate || trip.startDate <= trip.endDate;
+
+export const insertTripSchema = tripFieldsSchema.refine(endsAfterStart, {
+  message: 'The trip cannot end before it starts',
+  path: ['endDate'],
+});
+
+export const updateTripSchema = tripFieldsSchema
+  .extend({ coverMediaId: mediaIdSchema.nullable() })
+  .partial()
+  .strict()
+  .refine(endsAfterStart, {
+    message: 'The trip cannot end before it starts',
+    path: ['endDate'],
+  });
+
+export type InsertTrip = z.infer<typeof insertTripSchema>;
+export type UpdateTrip = z.infer<typeof updateTripSchema>;
+export type Trip = typeof trips.$inferSelect;
+
+// A trip as listed to its owner, with how many entries it holds and the photo
+// that represents it
+export type TripSummary = Trip & {
+  entryCount: number;
+  cover: Pick<DiaryEntry, "mediaId" | "imageUrl" | "variants"> | null;
+};
+
+export const acceptJourneySuggestionSchema = z.object({
+  name: tripFieldsSchema.shape.name.optional(),
+}).strict();
+
+export const mergeJourneySuggestionsSchema = z.object({
+  suggestionId: z.number().int().positive(),
+}).strict();
+
+// Split off the entries from `entryId` onwards into a suggestion of their own
+export const splitJourneySuggestionSchema = z.object({
+  entryId: z.number().int().positive(),
+}).strict();
+
+export type JourneySuggestion = typeof journeySuggestions.$inferSelect;
+
+// A suggestion as shown to its owner, with the entries it would group
+export type JourneySuggestionSummary = JourneySuggestion & {
+  startDate: string;
+  endDate: string;
+  entries: DiaryEntry[];
+};
+
+export const privacyZoneRadiusRange = { min: 50, max: 5000 };
+
+export const insertPrivacyZoneSchema = z.object({
+  label: z.string().trim().min(1, { message: 'Give the zone a name' }).max(50),
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+  radiusMeters: z.number().int().min(privacyZoneRadiusRange.min).max(privacyZoneRadiusRange.max),
+});
+
+export type InsertPrivacyZone = z.infer<typeof insertPrivacyZoneSchema>;
+export type PrivacyZone = typeof privacyZones.$inferSelect;
+
+export type EntryRevision = typeof entryRevisions.$inferSelect;
+export type Media = typeof media.$inferSelect;
+
+// The response to an upload. EXIF is read from the file as sent, before
+// re-encoding drops it, and is returned to the uploader but never stored
+// with the media (identical photos share one media record).
+export type UploadedMedia = Media & { exif: PhotoExif | null };
+
+export const createUploadSchema = z.object({
+  contentType: z.string().min(1),
+  size: z.number().int().positive(),
+});
+
+export type CreateUpload = z.infer<typeof createUploadSchema>;
+export type Upload = typeof uploads.$inferSelect;
+
+// Progress of an upload as reported to the uploader. `media` is set by the
+// response to the final chunk.
+export type UploadStatus = Pick<Upload, "id" | "size" | "received"> & {
+  chunkSize: number;
+  media?: UploadedMedia;
+};
+
+export type InsertShareLink = z.infer<typeof insertShareLinkSchema>;
+export type ShareLink = typeof shareLinks.$inferSelect;
+
+// What the owner sees about a share link; the passphrase hash never leaves the server
+export type ShareLinkSummary = Omit<ShareLink, "passphraseHash"> & {
+  hasPassphrase: boolean;
+  isActive: boolean;
+};
+
+// The public view of an entry served from a share link, without owner details
+// and with its location coarsened to the link's precision
+export type SharedEntry = Omit<DiaryEntry, "userId" | "geohash" | "deletedAt" | "privacyZone"> & {
+  locationPrecision: LocationPrecision;
+};
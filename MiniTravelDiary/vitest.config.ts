@@ -0,0 +1,21 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // The app's shared storage stays in memory whatever the environment says;
+    // storage tests connect to their own embedded database
+    env: {
+      DATABASE_URL: "",
+      SUPABASE_URL: "http://supabase.test",
+      SUPABASE_SERVICE_KEY: "test",
+    },
+  },
+});